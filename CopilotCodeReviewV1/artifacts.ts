@@ -0,0 +1,32 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Files the task keeps for the pipeline run (findings file, PR diff, dry-run report). The task runs with
+ * restricted logging commands, which do not include artifact.upload, so the files are copied to a
+ * CopilotReview folder in the artifact staging directory for a publish step after the task.
+ */
+
+export const ARTIFACT_NAME = 'CopilotReview';
+
+export function getArtifactDirectory(): string {
+    const stagingDirectory = tl.getVariable('Build.ArtifactStagingDirectory') || tl.getVariable('Agent.TempDirectory') || os.tmpdir();
+    return path.join(stagingDirectory, ARTIFACT_NAME);
+}
+
+/**
+ * Copies the file to the artifact folder. Failures are logged as warnings.
+ */
+export function stageArtifactFile(filePath: string): void {
+    const artifactDirectory = getArtifactDirectory();
+    try {
+        fs.mkdirSync(artifactDirectory, { recursive: true });
+        fs.copyFileSync(filePath, path.join(artifactDirectory, path.basename(filePath)));
+        console.log(`Copied ${path.basename(filePath)} to ${artifactDirectory}`);
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        tl.warning(`Could not copy ${filePath} to ${artifactDirectory}: ${errorMessage}`);
+    }
+}
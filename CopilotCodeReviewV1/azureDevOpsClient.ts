@@ -0,0 +1,615 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+
+/**
+ * Minimal typed client for the Azure DevOps Git pull request REST API.
+ *
+ * Mirrors the request/error handling of the PowerShell scripts (Get-AuthorizationHeader /
+ * Invoke-AzureDevOpsApi) so the task can talk to Azure DevOps without shelling out to pwsh.
+ * The collection URI is used verbatim, which also allows pointing the client at a local HTTP stub.
+ */
+
+const API_VERSION = 'api-version=7.1';
+
+// Throttled (429) and transient failures are retried with exponential backoff; a Retry-After header wins
+const MAX_REQUEST_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 2000;
+const MAX_RETRY_BACKOFF_MS = 60000;
+const MAX_RETRY_AFTER_MS = 300000;
+
+export type AzureDevOpsAuthType = 'Basic' | 'Bearer';
+
+export type AzureDevOpsConnection = {
+    collectionUri: string;
+    project: string;
+    repository: string;
+    token: string;
+    authType: AzureDevOpsAuthType;
+};
+
+export type IdentityRef = {
+    id?: string;
+    displayName?: string;
+    uniqueName?: string;
+};
+
+export type IdentityRefWithVote = IdentityRef & {
+    vote?: number;
+    isRequired?: boolean;
+};
+
+export type GitCommitRef = {
+    commitId: string;
+    comment?: string;
+    author?: {
+        name?: string;
+        email?: string;
+        date?: string;
+    };
+};
+
+export type WebApiTagDefinition = {
+    id?: string;
+    name: string;
+    active?: boolean;
+};
+
+export type GitPullRequest = {
+    pullRequestId: number;
+    title: string;
+    description?: string;
+    status: string;
+    isDraft?: boolean;
+    mergeStatus?: string;
+    sourceRefName?: string;
+    targetRefName?: string;
+    creationDate?: string;
+    closedDate?: string;
+    createdBy?: IdentityRef;
+    closedBy?: IdentityRef;
+    reviewers?: IdentityRefWithVote[];
+    repository?: {
+        id?: string;
+        name?: string;
+    };
+    lastMergeSourceCommit?: GitCommitRef;
+    lastMergeTargetCommit?: GitCommitRef;
+    labels?: WebApiTagDefinition[];
+};
+
+export type GitPullRequestIteration = {
+    id: number;
+    description?: string;
+    createdDate?: string;
+    updatedDate?: string;
+    sourceRefCommit?: { commitId: string };
+    targetRefCommit?: { commitId: string };
+    commonRefCommit?: { commitId: string };
+};
+
+export type GitPullRequestChange = {
+    changeTrackingId?: number;
+    changeType: string;
+    item?: {
+        objectId?: string;
+        originalObjectId?: string;
+        path?: string;
+    };
+    originalPath?: string;
+};
+
+export type CommentPosition = {
+    line: number;
+    offset: number;
+};
+
+export type CommentThreadContext = {
+    filePath?: string;
+    leftFileStart?: CommentPosition;
+    leftFileEnd?: CommentPosition;
+    rightFileStart?: CommentPosition;
+    rightFileEnd?: CommentPosition;
+};
+
+export type PullRequestComment = {
+    id: number;
+    parentCommentId?: number;
+    content?: string;
+    commentType?: string;
+    author?: IdentityRef;
+    publishedDate?: string;
+    lastUpdatedDate?: string;
+    isDeleted?: boolean;
+};
+
+export type ThreadStatus = 'active' | 'fixed' | 'wontFix' | 'closed' | 'byDesign' | 'pending';
+
+export type PropertyValue = {
+    $type?: string;
+    $value: string | number | boolean;
+};
+
+export type PullRequestThread = {
+    id: number;
+    status?: ThreadStatus | 'unknown';
+    threadContext?: CommentThreadContext | null;
+    pullRequestThreadContext?: {
+        iterationContext?: {
+            firstComparingIteration?: number;
+            secondComparingIteration?: number;
+        };
+    } | null;
+    comments: PullRequestComment[];
+    properties?: Record<string, PropertyValue>;
+    publishedDate?: string;
+    lastUpdatedDate?: string;
+    isDeleted?: boolean;
+};
+
+export type WorkItemRef = {
+    id: string;
+    url: string;
+};
+
+export type WorkItem = {
+    id: number;
+    fields?: Record<string, unknown>;
+};
+
+export type NewThreadOptions = {
+    content: string;
+    status?: ThreadStatus;
+    threadContext?: CommentThreadContext;
+    iterationId?: number;
+    properties?: Record<string, string | number | boolean>;
+};
+
+export type ThreadUpdate = {
+    status?: ThreadStatus;
+    properties?: Record<string, string | number | boolean>;
+};
+
+export type GitStatusState = 'pending' | 'succeeded' | 'failed' | 'error' | 'notApplicable' | 'notSet';
+
+export type GitPullRequestStatus = {
+    state: GitStatusState;
+    description?: string;
+    context: {
+        genre?: string;
+        name: string;
+    };
+    targetUrl?: string;
+    iterationId?: number;
+};
+
+type ApiResponse<T> = {
+    data: T;
+    headers: Headers;
+};
+
+type ListResponse<T> = {
+    value: T[];
+    count?: number;
+};
+
+/**
+ * Error raised for any non-success response from the Azure DevOps REST API.
+ */
+export class AzureDevOpsApiError extends Error {
+    constructor(
+        message: string,
+        public readonly statusCode: number | undefined,
+        public readonly method: string,
+        public readonly url: string
+    ) {
+        super(message);
+        this.name = 'AzureDevOpsApiError';
+    }
+}
+
+export function getAuthorizationHeader(connection: AzureDevOpsConnection): string {
+    if (connection.authType === 'Bearer') {
+        return `Bearer ${connection.token}`;
+    }
+    return `Basic ${Buffer.from(`:${connection.token}`, 'ascii').toString('base64')}`;
+}
+
+function getProjectApiUrl(connection: AzureDevOpsConnection): string {
+    return `${connection.collectionUri.replace(/\/+$/, '')}/${encodeURIComponent(connection.project)}/_apis`;
+}
+
+function getPullRequestUrl(connection: AzureDevOpsConnection, pullRequestId: number): string {
+    return `${getProjectApiUrl(connection)}/git/repositories/${encodeURIComponent(connection.repository)}/pullrequests/${pullRequestId}`;
+}
+
+function withApiVersion(url: string): string {
+    if (/[?&]api-version=/.test(url)) {
+        return url;
+    }
+    return `${url}${url.includes('?') ? '&' : '?'}${API_VERSION}`;
+}
+
+function toPropertyCollection(properties: Record<string, string | number | boolean>): Record<string, PropertyValue> {
+    const collection: Record<string, PropertyValue> = {};
+    for (const [key, value] of Object.entries(properties)) {
+        const type = typeof value === 'number' ? 'System.Int32' : typeof value === 'boolean' ? 'System.Boolean' : 'System.String';
+        collection[key] = { $type: type, $value: value };
+    }
+    return collection;
+}
+
+/**
+ * 429 and 503 mean the request was not processed, so every request is retried. Other server and network
+ * failures may have been processed, so they are only retried for requests that are safe to repeat (not POST).
+ */
+function isRetryableFailure(method: string, statusCode: number | undefined): boolean {
+    if (statusCode === 429 || statusCode === 503) {
+        return true;
+    }
+    if (method.toUpperCase() === 'POST') {
+        return false;
+    }
+    return statusCode === undefined || statusCode === 408 || statusCode === 500 || statusCode === 502 || statusCode === 504;
+}
+
+/**
+ * The delay before the next attempt: the Retry-After header (seconds or an HTTP date) when present,
+ * otherwise exponential backoff (2s, 4s, 8s, ...).
+ */
+export function getRetryDelayMs(attempt: number, retryAfter: string | null | undefined, now: number = Date.now()): number {
+    if (retryAfter) {
+        const seconds = Number(retryAfter.trim());
+        const delayMs = !isNaN(seconds) ? seconds * 1000 : Date.parse(retryAfter) - now;
+        if (!isNaN(delayMs)) {
+            return Math.min(Math.max(0, delayMs), MAX_RETRY_AFTER_MS);
+        }
+    }
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_BACKOFF_MS);
+}
+
+async function waitBeforeRetry(failure: string, attempt: number, retryAfter: string | null): Promise<void> {
+    const delayMs = getRetryDelayMs(attempt, retryAfter);
+    tl.warning(`${failure} (attempt ${attempt} of ${MAX_REQUEST_ATTEMPTS}). Retrying in ${Math.ceil(delayMs / 1000)}s` +
+        `${retryAfter ? ' as requested by Retry-After' : ''}...`);
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+}
+
+async function request<T>(
+    connection: AzureDevOpsConnection,
+    method: string,
+    url: string,
+    body?: unknown,
+    contentType = 'application/json'
+): Promise<ApiResponse<T>> {
+    const requestUrl = withApiVersion(url);
+    let response: Response;
+
+    for (let attempt = 1; ; attempt++) {
+        const attemptsNote = attempt > 1 ? ` (gave up after ${attempt} attempts)` : '';
+
+        try {
+            response = await fetch(requestUrl, {
+                method,
+                headers: {
+                    'Authorization': getAuthorizationHeader(connection),
+                    'Content-Type': contentType,
+                    'Accept': 'application/json'
+                },
+                body: body === undefined ? undefined : JSON.stringify(body)
+            });
+        } catch (err: unknown) {
+            const reason = err instanceof Error ? err.message : String(err);
+            if (attempt < MAX_REQUEST_ATTEMPTS && isRetryableFailure(method, undefined)) {
+                await waitBeforeRetry(`${method} ${requestUrl} failed: ${reason}`, attempt, null);
+                continue;
+            }
+            throw new AzureDevOpsApiError(`Azure DevOps API error calling ${method} ${requestUrl} — ${reason}${attemptsNote}`, undefined, method, requestUrl);
+        }
+
+        if (!response.ok) {
+            const errorDetail = await response.text().catch(() => '');
+            if (attempt < MAX_REQUEST_ATTEMPTS && isRetryableFailure(method, response.status)) {
+                await waitBeforeRetry(`${method} ${requestUrl} returned HTTP ${response.status}`, attempt, response.headers.get('Retry-After'));
+                continue;
+            }
+
+            let message = `Azure DevOps API error (HTTP ${response.status}) calling ${method} ${requestUrl}`;
+            if (response.status === 401) {
+                message += ` — Authentication failed. Please verify your token is valid and has appropriate permissions. API response: ${errorDetail}`;
+            } else if (response.status === 404) {
+                message += ` — Resource not found. Please verify the organization, project, repository, and PR ID. API response: ${errorDetail}`;
+            } else {
+                message += ` — API response: ${errorDetail}`;
+            }
+            throw new AzureDevOpsApiError(message + attemptsNote, response.status, method, requestUrl);
+        }
+
+        if (attempt > 1) {
+            tl.debug(`${method} ${requestUrl} succeeded on attempt ${attempt}.`);
+        }
+        break;
+    }
+
+    const text = await response.text();
+    return {
+        data: (text ? JSON.parse(text) : undefined) as T,
+        headers: response.headers
+    };
+}
+
+export async function getPullRequest(connection: AzureDevOpsConnection, pullRequestId: number): Promise<GitPullRequest> {
+    const { data } = await request<GitPullRequest>(connection, 'GET', getPullRequestUrl(connection, pullRequestId));
+    return data;
+}
+
+/**
+ * Replaces the pull request description. Azure DevOps limits descriptions to 4000 characters.
+ */
+export async function updatePullRequestDescription(connection: AzureDevOpsConnection, pullRequestId: number, description: string): Promise<GitPullRequest> {
+    const { data } = await request<GitPullRequest>(connection, 'PATCH', getPullRequestUrl(connection, pullRequestId), { description });
+    return data;
+}
+
+/**
+ * Returns the active pull requests of the repository, following `$skip` paging until all are retrieved.
+ */
+export async function getActivePullRequests(connection: AzureDevOpsConnection): Promise<GitPullRequest[]> {
+    const pullRequests: GitPullRequest[] = [];
+    const pageSize = 100;
+    let skip = 0;
+
+    while (true) {
+        const url = `${getProjectApiUrl(connection)}/git/repositories/${encodeURIComponent(connection.repository)}/pullrequests` +
+            `?searchCriteria.status=active&$top=${pageSize}&$skip=${skip}`;
+        const { data } = await request<ListResponse<GitPullRequest>>(connection, 'GET', url);
+        const page = data.value ?? [];
+        pullRequests.push(...page);
+
+        if (page.length < pageSize) {
+            break;
+        }
+        skip += pageSize;
+    }
+
+    return pullRequests;
+}
+
+export async function getPullRequestLabels(connection: AzureDevOpsConnection, pullRequestId: number): Promise<WebApiTagDefinition[]> {
+    const { data } = await request<ListResponse<WebApiTagDefinition>>(connection, 'GET', `${getPullRequestUrl(connection, pullRequestId)}/labels`);
+    return data.value ?? [];
+}
+
+export async function getPullRequestWorkItems(connection: AzureDevOpsConnection, pullRequestId: number): Promise<WorkItemRef[]> {
+    const { data } = await request<ListResponse<WorkItemRef>>(connection, 'GET', `${getPullRequestUrl(connection, pullRequestId)}/workitems`);
+    return data.value ?? [];
+}
+
+/**
+ * Returns the requested fields of the work items (at most 200 per call). Work items that do not exist or
+ * cannot be read are left out.
+ */
+export async function getWorkItems(connection: AzureDevOpsConnection, ids: number[], fields: string[]): Promise<WorkItem[]> {
+    const url = `${getProjectApiUrl(connection)}/wit/workitems?ids=${ids.join(',')}&fields=${fields.map(encodeURIComponent).join(',')}&errorPolicy=omit`;
+    const { data } = await request<ListResponse<WorkItem | null>>(connection, 'GET', url);
+    return (data.value ?? []).filter((workItem): workItem is WorkItem => !!workItem);
+}
+
+export async function getPullRequestCommits(connection: AzureDevOpsConnection, pullRequestId: number): Promise<GitCommitRef[]> {
+    const { data } = await request<ListResponse<GitCommitRef>>(connection, 'GET', `${getPullRequestUrl(connection, pullRequestId)}/commits`);
+    return data.value ?? [];
+}
+
+export async function getPullRequestProperties(connection: AzureDevOpsConnection, pullRequestId: number): Promise<Record<string, PropertyValue>> {
+    const { data } = await request<{ value?: Record<string, PropertyValue> }>(connection, 'GET', `${getPullRequestUrl(connection, pullRequestId)}/properties`);
+    return data.value ?? {};
+}
+
+/**
+ * Adds or replaces pull request properties using a JSON Patch document.
+ */
+export async function setPullRequestProperties(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    properties: Record<string, string | number | boolean>
+): Promise<void> {
+    const patch = Object.entries(properties).map(([key, value]) => ({ op: 'add', path: `/${key}`, value }));
+    await request<unknown>(connection, 'PATCH', `${getPullRequestUrl(connection, pullRequestId)}/properties`, patch, 'application/json-patch+json');
+}
+
+/**
+ * Returns all iterations of the pull request ordered by ascending iteration ID.
+ */
+export async function getIterations(connection: AzureDevOpsConnection, pullRequestId: number): Promise<GitPullRequestIteration[]> {
+    const { data } = await request<ListResponse<GitPullRequestIteration>>(connection, 'GET', `${getPullRequestUrl(connection, pullRequestId)}/iterations`);
+    return (data.value ?? []).slice().sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Returns the changes of an iteration, following `nextSkip` paging until all entries are retrieved.
+ * When `compareTo` is provided, only the changes between that iteration and `iterationId` are returned.
+ */
+export async function getIterationChanges(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    iterationId: number,
+    compareTo?: number
+): Promise<GitPullRequestChange[]> {
+    const changes: GitPullRequestChange[] = [];
+    const pageSize = 2000;
+    let skip = 0;
+
+    while (true) {
+        let url = `${getPullRequestUrl(connection, pullRequestId)}/iterations/${iterationId}/changes?$top=${pageSize}&$skip=${skip}`;
+        if (compareTo !== undefined) {
+            url += `&$compareTo=${compareTo}`;
+        }
+        const { data } = await request<{ changeEntries?: GitPullRequestChange[]; nextSkip?: number }>(connection, 'GET', url);
+        changes.push(...(data.changeEntries ?? []));
+
+        if (!data.nextSkip || data.nextSkip <= skip) {
+            break;
+        }
+        skip = data.nextSkip;
+    }
+
+    return changes;
+}
+
+/**
+ * Returns all comment threads of the pull request, following the continuation token across pages.
+ */
+export async function getThreads(connection: AzureDevOpsConnection, pullRequestId: number): Promise<PullRequestThread[]> {
+    const threads: PullRequestThread[] = [];
+    let continuationToken: string | null = null;
+
+    do {
+        let url = `${getPullRequestUrl(connection, pullRequestId)}/threads`;
+        if (continuationToken) {
+            url += `?continuationToken=${encodeURIComponent(continuationToken)}`;
+        }
+        const response: ApiResponse<ListResponse<PullRequestThread>> =
+            await request<ListResponse<PullRequestThread>>(connection, 'GET', url);
+        threads.push(...(response.data.value ?? []));
+        continuationToken = response.headers.get('x-ms-continuationtoken');
+    } while (continuationToken);
+
+    return threads;
+}
+
+export async function createThread(connection: AzureDevOpsConnection, pullRequestId: number, options: NewThreadOptions): Promise<PullRequestThread> {
+    const body: Record<string, unknown> = {
+        comments: [
+            {
+                parentCommentId: 0,
+                content: options.content,
+                commentType: 'text'
+            }
+        ],
+        status: options.status ?? 'active'
+    };
+
+    if (options.threadContext) {
+        body.threadContext = options.threadContext;
+        if (options.iterationId) {
+            body.pullRequestThreadContext = {
+                iterationContext: {
+                    firstComparingIteration: options.iterationId,
+                    secondComparingIteration: options.iterationId
+                }
+            };
+        }
+    }
+
+    if (options.properties) {
+        body.properties = toPropertyCollection(options.properties);
+    }
+
+    const { data } = await request<PullRequestThread>(connection, 'POST', `${getPullRequestUrl(connection, pullRequestId)}/threads`, body);
+    return data;
+}
+
+export async function updateThread(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    threadId: number,
+    update: ThreadUpdate
+): Promise<PullRequestThread> {
+    const body: Record<string, unknown> = {};
+    if (update.status) {
+        body.status = update.status;
+    }
+    if (update.properties) {
+        body.properties = toPropertyCollection(update.properties);
+    }
+
+    const { data } = await request<PullRequestThread>(connection, 'PATCH', `${getPullRequestUrl(connection, pullRequestId)}/threads/${threadId}`, body);
+    return data;
+}
+
+export async function addComment(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    threadId: number,
+    content: string,
+    parentCommentId = 0
+): Promise<PullRequestComment> {
+    const { data } = await request<PullRequestComment>(
+        connection,
+        'POST',
+        `${getPullRequestUrl(connection, pullRequestId)}/threads/${threadId}/comments`,
+        { content, parentCommentId, commentType: 'text' }
+    );
+    return data;
+}
+
+export async function updateComment(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    threadId: number,
+    commentId: number,
+    content: string
+): Promise<PullRequestComment> {
+    const { data } = await request<PullRequestComment>(
+        connection,
+        'PATCH',
+        `${getPullRequestUrl(connection, pullRequestId)}/threads/${threadId}/comments/${commentId}`,
+        { content }
+    );
+    return data;
+}
+
+export async function deleteComment(connection: AzureDevOpsConnection, pullRequestId: number, threadId: number, commentId: number): Promise<void> {
+    await request<void>(connection, 'DELETE', `${getPullRequestUrl(connection, pullRequestId)}/threads/${threadId}/comments/${commentId}`);
+}
+
+/**
+ * Identity the connection's token authenticates as (the build service identity for System.AccessToken,
+ * the PAT owner otherwise).
+ */
+export async function getAuthenticatedIdentity(connection: AzureDevOpsConnection): Promise<IdentityRef> {
+    const url = `${connection.collectionUri.replace(/\/+$/, '')}/_apis/connectionData?api-version=7.1-preview`;
+    const { data } = await request<{ authenticatedUser?: { id?: string; providerDisplayName?: string } }>(connection, 'GET', url);
+    if (!data?.authenticatedUser?.id) {
+        throw new Error('Could not determine the authenticated identity from connectionData.');
+    }
+    return { id: data.authenticatedUser.id, displayName: data.authenticatedUser.providerDisplayName };
+}
+
+/**
+ * Adds the identity as a reviewer if needed and sets its vote
+ * (10 approved, 5 approved with suggestions, 0 no vote, -5 waiting for author, -10 rejected).
+ */
+export async function setReviewerVote(connection: AzureDevOpsConnection, pullRequestId: number, reviewerId: string, vote: number): Promise<void> {
+    await request<unknown>(connection, 'PUT', `${getPullRequestUrl(connection, pullRequestId)}/reviewers/${encodeURIComponent(reviewerId)}`, { vote });
+}
+
+/**
+ * Posts a status on the pull request. The newest status of a context (genre/name) is the one shown on the PR
+ * and evaluated by status policies.
+ */
+export async function createPullRequestStatus(connection: AzureDevOpsConnection, pullRequestId: number, status: GitPullRequestStatus): Promise<void> {
+    await request<unknown>(connection, 'POST', `${getPullRequestUrl(connection, pullRequestId)}/statuses?api-version=7.1-preview.2`, status);
+}
+
+/**
+ * Returns the content of a file at the given commit, or undefined when the file does not exist there.
+ */
+export async function getFileContent(connection: AzureDevOpsConnection, filePath: string, commitId: string): Promise<string | undefined> {
+    const url = `${getProjectApiUrl(connection)}/git/repositories/${encodeURIComponent(connection.repository)}/items` +
+        `?path=${encodeURIComponent(filePath)}&versionDescriptor.versionType=commit&versionDescriptor.version=${commitId}&includeContent=true`;
+    try {
+        const { data } = await request<{ content?: string }>(connection, 'GET', url);
+        return data.content ?? '';
+    } catch (err: unknown) {
+        if (err instanceof AzureDevOpsApiError && err.statusCode === 404) {
+            return undefined;
+        }
+        throw err;
+    }
+}
+
+/**
+ * Web URL of the pull request, as printed by the PowerShell scripts.
+ */
+export function getPullRequestWebUrl(connection: AzureDevOpsConnection, pullRequestId: number): string {
+    return `${connection.collectionUri.replace(/\/+$/, '')}/${connection.project}/_git/${connection.repository}/pullrequest/${pullRequestId}`;
+}
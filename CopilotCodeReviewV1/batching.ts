@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitPullRequestChange } from './azureDevOpsClient';
+
+/**
+ * Chunked review mode for large pull requests: the changed files are split into batches that are
+ * reviewed by separate Copilot sessions running with a bounded concurrency.
+ */
+
+export type BatchOptions = {
+    maxFiles: number;
+    maxSizeKb: number;
+};
+
+export type ReviewBatch = {
+    index: number;
+    count: number;
+    files: string[];
+    sizeBytes: number;
+};
+
+export type BatchRunResult = {
+    batch: ReviewBatch;
+    succeeded: boolean;
+    skipped?: boolean;
+    error?: string;
+};
+
+const COPILOT_TAG = '_[Generated by GitHub Copilot]_';
+
+export function isBatchingEnabled(options: BatchOptions): boolean {
+    return options.maxFiles > 0 || options.maxSizeKb > 0;
+}
+
+export function getBatchSummaryFileName(batch: ReviewBatch): string {
+    return `Copilot_Batch_${batch.index}.md`;
+}
+
+export function getBatchFindingsFileName(batch: ReviewBatch): string {
+    return `Copilot_Findings_${batch.index}.json`;
+}
+
+function getFileSize(workingDirectory: string, filePath: string): number {
+    try {
+        return fs.statSync(path.join(workingDirectory, filePath)).size;
+    } catch {
+        // Deleted or not checked out: counts towards the file limit only
+        return 0;
+    }
+}
+
+/**
+ * Greedily groups the changed files into batches, starting a new batch when adding the next file
+ * would exceed the file count or total size limit. Size is the current size of the file in the
+ * working directory. A single file larger than the size limit gets a batch of its own.
+ */
+export function createReviewBatches(changes: GitPullRequestChange[], workingDirectory: string, options: BatchOptions): ReviewBatch[] {
+    const maxSizeBytes = options.maxSizeKb * 1024;
+    const groups: { files: string[]; sizeBytes: number }[] = [];
+    let current = { files: [] as string[], sizeBytes: 0 };
+
+    for (const change of changes) {
+        const filePath = change.item?.path;
+        if (!filePath) {
+            continue;
+        }
+
+        const size = getFileSize(workingDirectory, filePath);
+        const exceedsFiles = options.maxFiles > 0 && current.files.length >= options.maxFiles;
+        const exceedsSize = maxSizeBytes > 0 && current.sizeBytes + size > maxSizeBytes;
+        if (current.files.length > 0 && (exceedsFiles || exceedsSize)) {
+            groups.push(current);
+            current = { files: [], sizeBytes: 0 };
+        }
+
+        current.files.push(filePath);
+        current.sizeBytes += size;
+    }
+    if (current.files.length > 0) {
+        groups.push(current);
+    }
+
+    return groups.map((group, index) => ({
+        index: index + 1,
+        count: groups.length,
+        files: group.files,
+        sizeBytes: group.sizeBytes
+    }));
+}
+
+/**
+ * Runs the batches with at most `concurrency` in flight. Each batch gets `batchTimeoutMs`, capped by
+ * the time left until the overall deadline; batches that cannot start before the deadline are skipped.
+ * A failing batch does not stop the others.
+ */
+export async function runBatches(
+    batches: ReviewBatch[],
+    concurrency: number,
+    batchTimeoutMs: number,
+    overallTimeoutMs: number,
+    runBatch: (batch: ReviewBatch, timeoutMs: number) => Promise<void>
+): Promise<BatchRunResult[]> {
+    const deadline = Date.now() + overallTimeoutMs;
+    const results: BatchRunResult[] = [];
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+        while (next < batches.length) {
+            const batch = batches[next++];
+            const remainingMs = deadline - Date.now();
+            if (remainingMs <= 0) {
+                results.push({ batch, succeeded: false, skipped: true, error: 'Skipped: overall timeout reached before the batch could start' });
+                continue;
+            }
+
+            console.log(`\nStarting batch ${batch.index}/${batch.count} (${batch.files.length} file(s), ${Math.ceil(batch.sizeBytes / 1024)} KB)...`);
+            try {
+                await runBatch(batch, Math.min(batchTimeoutMs, remainingMs));
+                console.log(`Batch ${batch.index}/${batch.count} completed.`);
+                results.push({ batch, succeeded: true });
+            } catch (err: unknown) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                console.log(`Batch ${batch.index}/${batch.count} failed: ${errorMessage}`);
+                results.push({ batch, succeeded: false, error: errorMessage });
+            }
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(concurrency, batches.length)) }, () => worker());
+    await Promise.all(workers);
+
+    return results.sort((a, b) => a.batch.index - b.batch.index);
+}
+
+type WholeDiffSections = {
+    summary: string[];
+    rows: string[];
+    details: string[];
+};
+
+function parseWholeDiffReview(markdown: string): WholeDiffSections {
+    const sections: WholeDiffSections = { summary: [], rows: [], details: [] };
+    let current: keyof WholeDiffSections | undefined;
+
+    for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+        const heading = line.match(/^#{1,3}\s+(.*)$/);
+        if (heading) {
+            const title = heading[1].toLowerCase();
+            current = title.includes('summary') ? 'summary'
+                : title.includes('feedback') ? 'rows'
+                : title.includes('detail') ? 'details'
+                : current;
+            continue;
+        }
+        if (!current || line.includes(COPILOT_TAG)) {
+            continue;
+        }
+
+        if (current === 'rows') {
+            const trimmed = line.trim();
+            const isHeader = /^\|\s*file name\s*\|/i.test(trimmed);
+            const isSeparator = /^\|(\s*:?-{3,}:?\s*\|)+$/.test(trimmed);
+            if (trimmed.startsWith('|') && !isHeader && !isSeparator) {
+                sections.rows.push(trimmed);
+            }
+        } else {
+            sections[current].push(line);
+        }
+    }
+
+    return sections;
+}
+
+/**
+ * Merges the per-batch whole-diff reviews into one consolidated comment with a single summary,
+ * one file table and the combined detailed comments. Batches without output are reported explicitly.
+ */
+export function mergeWholeDiffReviews(parts: { batch: ReviewBatch; markdown?: string; error?: string }[]): string {
+    const summaries: string[] = [];
+    const rows: string[] = [];
+    const details: string[] = [];
+    const missing: string[] = [];
+
+    for (const part of parts) {
+        if (!part.markdown || !part.markdown.trim()) {
+            const reason = part.error ?? 'no review output was written';
+            missing.push(`> ⚠️ Batch ${part.batch.index} of ${part.batch.count} was not reviewed (${reason}). Files: ${part.batch.files.join(', ')}`);
+            continue;
+        }
+
+        const sections = parseWholeDiffReview(part.markdown);
+        const summary = sections.summary.join('\n').trim();
+        const detail = sections.details.join('\n').trim();
+        if (summary) {
+            summaries.push(summary);
+        }
+        rows.push(...sections.rows);
+        if (detail) {
+            details.push(detail);
+        }
+    }
+
+    const lines: string[] = ['## Summary of changes', ''];
+    lines.push(summaries.length > 0 ? summaries.join('\n\n') : '_No summary was produced._');
+    if (missing.length > 0) {
+        lines.push('', ...missing);
+    }
+
+    lines.push('', '## Feedback on files', '| File Name | Status | Comments |', '| --- | --- | --- |', ...rows);
+
+    if (details.length > 0) {
+        lines.push('', '## Detailed comments', '', details.join('\n\n'));
+    }
+
+    lines.push('', COPILOT_TAG);
+    return lines.join('\n');
+}
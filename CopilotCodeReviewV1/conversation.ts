@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IdentityRef, PullRequestComment, PullRequestThread } from './azureDevOpsClient';
+import { getCopilotThreads } from './prDetails';
+
+/**
+ * Conversation mode: answers developer replies on Copilot threads. An active Copilot thread whose newest
+ * comment was written by someone other than the author of its first comment (the identity the review
+ * posts with) gets a focused Copilot run. The thread, its replies and the code around the anchor are
+ * written to a context file; Copilot replies with Add-CopilotComment.ps1 -ThreadId and may set the
+ * thread to Won't Fix with Update-CopilotComment.ps1 when it accepts the developer's justification.
+ */
+
+export const CONVERSATION_PROMPT_TEMPLATE = 'prompt-conversation.txt';
+
+const CODE_CONTEXT_LINES = 15;
+
+export function getConversationPromptFileName(threadId: number): string {
+    return `_copilot_prompt_thread_${threadId}.txt`;
+}
+
+export function getConversationContextFileName(threadId: number): string {
+    return `Copilot_Conversation_${threadId}.txt`;
+}
+
+function getIdentityKey(identity: IdentityRef | undefined): string | undefined {
+    return identity?.id ?? identity?.uniqueName ?? identity?.displayName;
+}
+
+function getVisibleComments(thread: PullRequestThread): PullRequestComment[] {
+    return thread.comments.filter(comment => !comment.isDeleted && comment.commentType !== 'system');
+}
+
+/**
+ * Active Copilot threads waiting for an answer: the newest comment is neither from the identity that
+ * created the thread nor tagged as generated by Copilot.
+ */
+export function getConversationThreads(threads: PullRequestThread[]): PullRequestThread[] {
+    return getCopilotThreads(threads).filter(thread => {
+        if (thread.status !== 'active') {
+            return false;
+        }
+
+        const comments = getVisibleComments(thread);
+        if (comments.length < 2) {
+            return false;
+        }
+
+        const newest = comments[comments.length - 1];
+        const copilotIdentity = getIdentityKey(thread.comments[0].author);
+        return getIdentityKey(newest.author) !== copilotIdentity &&
+            !(newest.content ?? '').includes('[Generated by GitHub Copilot]');
+    });
+}
+
+/**
+ * The commented lines of the file in the working directory with surrounding context and line numbers.
+ * Commented lines are marked with '>'.
+ */
+export function formatCodeContext(workingDirectory: string, filePath: string, startLine: number, endLine: number): string {
+    let content: string;
+    try {
+        content = fs.readFileSync(path.join(workingDirectory, ...filePath.split(/[\\/]+/).filter(Boolean)), 'utf8');
+    } catch {
+        return `(${filePath} could not be read from the working directory)`;
+    }
+
+    const lines = content.split(/\r?\n/);
+    const first = Math.max(1, startLine - CODE_CONTEXT_LINES);
+    const last = Math.min(lines.length, endLine + CODE_CONTEXT_LINES);
+    const width = String(last).length;
+    const output: string[] = [];
+    for (let line = first; line <= last; line++) {
+        const marker = line >= startLine && line <= endLine ? '>' : ' ';
+        output.push(`${marker} ${String(line).padStart(width)} | ${lines[line - 1]}`);
+    }
+    return output.join('\n');
+}
+
+export function formatConversationContext(thread: PullRequestThread, workingDirectory: string): string {
+    const comments = getVisibleComments(thread);
+    const lines: string[] = [
+        `THREAD #${thread.id} (${thread.status})`,
+        '',
+        JSON.stringify({
+            threadId: thread.id,
+            filePath: thread.threadContext?.filePath ?? null,
+            startLine: thread.threadContext?.rightFileStart?.line ?? null,
+            endLine: thread.threadContext?.rightFileEnd?.line ?? null,
+            comments: comments.map(comment => ({
+                author: comment.author?.displayName,
+                publishedDate: comment.publishedDate,
+                content: comment.content
+            }))
+        }, null, 2)
+    ];
+
+    const filePath = thread.threadContext?.filePath;
+    const startLine = thread.threadContext?.rightFileStart?.line;
+    if (filePath && startLine) {
+        const endLine = thread.threadContext?.rightFileEnd?.line ?? startLine;
+        lines.push('', `CODE AROUND THE COMMENT (${filePath}, current version)`, '', formatCodeContext(workingDirectory, filePath, startLine, endLine));
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes the context file for one thread and returns the prompt that points Copilot at it.
+ * The thread text stays in the context file, so quotes in developer replies cannot break the prompt.
+ */
+export function buildConversationPrompt(templateContent: string, thread: PullRequestThread, workingDirectory: string): string {
+    const contextFile = getConversationContextFileName(thread.id);
+    fs.writeFileSync(path.join(workingDirectory, contextFile), formatConversationContext(thread, workingDirectory), 'utf8');
+
+    return `${templateContent.trim()}\n\n` +
+        `THREAD TO ANSWER: #${thread.id}\n` +
+        `The thread, its replies and the code around the comment have been saved to the ${contextFile} file.\n`;
+}
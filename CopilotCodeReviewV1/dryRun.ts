@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import { PullRequestThread } from './azureDevOpsClient';
+import { STATUS_LABELS } from './findings';
+import { getCopilotThreads } from './prDetails';
+import { ReviewStatusCounts, ThreadActivity, countCommentStatusLabels, getStatusLabel } from './reviewOutcome';
+import { hasSecretScanThreadProperty } from './reviewState';
+import { SummaryThread } from './runSummary';
+
+/**
+ * Dry-run mode: the comment scripts are swapped for versions in scripts/dryrun that append each call
+ * to a JSON lines log, and comments the task would post itself are appended to the same log.
+ * Nothing is written to the pull request; the log is turned into a report kept as an artifact.
+ */
+
+export const DRY_RUN_LOG_FILE = 'Copilot_DryRun.jsonl';
+export const DRY_RUN_REPORT_MARKDOWN_FILE = 'Copilot_DryRun_Report.md';
+export const DRY_RUN_REPORT_JSON_FILE = 'Copilot_DryRun_Report.json';
+
+export type DryRunAction = {
+    action: 'add' | 'update' | 'delete';
+    source: 'copilot' | 'task';
+    comment?: string;
+    status?: string;
+    filePath?: string;
+    startLine?: number;
+    endLine?: number;
+    threadId?: number;
+    commentId?: number;
+    // A secret scan finding (recorded by the task)
+    secretScan?: boolean;
+};
+
+/**
+ * New threads the run would create. An 'add' action with a threadId is a reply to that thread
+ * (a duplicate comment with duplicateComments = reply).
+ */
+function getNewThreadActions(actions: DryRunAction[]): DryRunAction[] {
+    return actions.filter(action => action.action === 'add' && action.threadId === undefined);
+}
+
+function getReplyActions(actions: DryRunAction[]): DryRunAction[] {
+    return actions.filter(action => action.action === 'add' && action.threadId !== undefined);
+}
+
+export function recordDryRunAction(logFile: string, action: DryRunAction): void {
+    fs.appendFileSync(logFile, JSON.stringify(action) + '\n', 'utf8');
+}
+
+/**
+ * Reads the dry-run log. Lines that are not valid JSON are skipped.
+ */
+export function readDryRunActions(logFile: string): DryRunAction[] {
+    if (!fs.existsSync(logFile)) {
+        return [];
+    }
+
+    const actions: DryRunAction[] = [];
+    for (const line of fs.readFileSync(logFile, 'utf8').split(/\r?\n/)) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            actions.push(JSON.parse(line.replace(/^\uFEFF/, '')) as DryRunAction);
+        } catch {
+            // Partial line written by an interrupted process
+        }
+    }
+    return actions;
+}
+
+/**
+ * Thread status a new comment would get: the explicit status, otherwise inferred from the status
+ * label like Add-CopilotComment.ps1 does (✅ Passed => Closed, anything else => Active).
+ */
+export function getDryRunThreadStatus(action: DryRunAction): string {
+    if (action.status) {
+        return action.status;
+    }
+    return getStatusLabel(action.comment) === 'passed' ? 'Closed' : 'Active';
+}
+
+export function countDryRunStatusLabels(actions: DryRunAction[]): ReviewStatusCounts {
+    return countCommentStatusLabels(getNewThreadActions(actions).map(action => action.comment));
+}
+
+const RESOLVED_STATUSES = ['Fixed', 'WontFix', 'Closed'];
+
+function isOpenDryRunStatus(status: string | undefined): boolean {
+    return status?.toLowerCase() === 'active' || status?.toLowerCase() === 'pending';
+}
+
+/**
+ * The open Copilot threads there would be after the run: the threads that were open before, with the
+ * recorded status and first-comment updates applied, plus the recorded new threads that would be open.
+ * Secret scan threads are left out unless includeSecretScan (failOnSecrets) is set.
+ */
+export function countDryRunOpenThreads(previousThreads: PullRequestThread[], actions: DryRunAction[], includeSecretScan: boolean): ReviewStatusCounts {
+    const contents: (string | undefined)[] = [];
+    for (const thread of getCopilotThreads(previousThreads)) {
+        if (!includeSecretScan && hasSecretScanThreadProperty(thread)) {
+            continue;
+        }
+        let status: string | undefined = thread.status;
+        let content = thread.comments[0]?.content;
+        for (const action of actions.filter(action => action.action === 'update' && action.threadId === thread.id)) {
+            status = action.status ?? status;
+            if (action.comment !== undefined && action.commentId === thread.comments[0]?.id) {
+                content = action.comment;
+            }
+        }
+        if (isOpenDryRunStatus(status)) {
+            contents.push(content);
+        }
+    }
+
+    for (const action of getNewThreadActions(actions)) {
+        if ((includeSecretScan || !action.secretScan) && isOpenDryRunStatus(getDryRunThreadStatus(action))) {
+            contents.push(action.comment);
+        }
+    }
+    return countCommentStatusLabels(contents);
+}
+
+export function getDryRunActivity(actions: DryRunAction[]): ThreadActivity {
+    const updates = actions.filter(action => action.action === 'update');
+    const resolved = updates.filter(action => action.status && RESOLVED_STATUSES.includes(action.status));
+    return {
+        created: getNewThreadActions(actions).length,
+        updated: updates.length - resolved.length + getReplyActions(actions).length,
+        resolved: resolved.length,
+        deleted: actions.filter(action => action.action === 'delete').length
+    };
+}
+
+export function getDryRunSummaryThreads(actions: DryRunAction[]): SummaryThread[] {
+    return getNewThreadActions(actions)
+        .map(action => ({
+            label: getStatusLabel(action.comment),
+            threadStatus: getDryRunThreadStatus(action),
+            filePath: action.filePath,
+            line: action.startLine
+        }));
+}
+
+function formatLocation(action: DryRunAction): string {
+    if (!action.filePath) {
+        return 'PR-level';
+    }
+    return action.startLine ? `${action.filePath}:${action.startLine}-${action.endLine ?? action.startLine}` : action.filePath;
+}
+
+function quoteMarkdown(text: string): string {
+    return text.trim().split(/\r?\n/).map(line => `> ${line}`).join('\n');
+}
+
+export function formatDryRunReport(actions: DryRunAction[]): string {
+    const added = getNewThreadActions(actions);
+    const replies = getReplyActions(actions);
+    const updated = actions.filter(action => action.action === 'update');
+    const deleted = actions.filter(action => action.action === 'delete');
+    const counts = countDryRunStatusLabels(actions);
+
+    const lines: string[] = [
+        '# Copilot Code Review (dry run)',
+        '',
+        'Nothing was written to the pull request. These are the changes the review would have made.',
+        '',
+        `- Comments: ${added.length} (${added.filter(action => action.filePath).length} inline)`,
+        `- Replies to existing threads: ${replies.length}`,
+        `- Thread updates: ${updated.length}`,
+        `- Comment deletions: ${deleted.length}`,
+        `- Status labels: ${STATUS_LABELS.notPassed} ${counts.notPassed}, ${STATUS_LABELS.questions} ${counts.questions}, ` +
+            `${STATUS_LABELS.passed} ${counts.passed}, unlabeled ${counts.unlabeled}`
+    ];
+
+    if (added.length > 0) {
+        lines.push('', '## Comments');
+        added.forEach((action, index) => {
+            lines.push('', `### ${index + 1}. ${formatLocation(action)} (thread status: ${getDryRunThreadStatus(action)}, posted by ${action.source})`, '');
+            lines.push(quoteMarkdown(action.comment ?? ''));
+        });
+    }
+
+    if (replies.length > 0) {
+        lines.push('', '## Replies');
+        replies.forEach((action, index) => {
+            lines.push('', `### ${index + 1}. Thread #${action.threadId} (posted by ${action.source})`, '');
+            lines.push(quoteMarkdown(action.comment ?? ''));
+        });
+    }
+
+    if (updated.length > 0 || deleted.length > 0) {
+        lines.push('', '## Thread updates', '');
+        for (const action of updated) {
+            const content = action.commentId
+                ? `, comment #${action.commentId} content replaced`
+                : action.comment ? `, reply: ${action.comment.replace(/\r?\n/g, ' ')}` : '';
+            lines.push(`- Thread #${action.threadId}: status ${action.status ?? 'unchanged'}${content}`);
+        }
+        for (const action of deleted) {
+            lines.push(`- Thread #${action.threadId}: comment #${action.commentId} deleted`);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
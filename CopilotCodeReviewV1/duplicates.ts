@@ -0,0 +1,145 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PullRequestThread } from './azureDevOpsClient';
+import { getCopilotThreads } from './prDetails';
+import { THREAD_FINGERPRINT_PROPERTY } from './reviewState';
+
+/**
+ * Duplicate-finding suppression across runs. Every new Copilot comment is fingerprinted from its file,
+ * the code it is anchored to (not the line number) and its normalized text. A comment whose fingerprint
+ * matches an existing Copilot thread is skipped or posted as a reply to that thread.
+ *
+ * Add-CopilotComment.ps1 computes the same fingerprint (Get-CopilotCommentFingerprint.ps1) against the
+ * threads the task lists in Copilot_Threads.json; both implementations must be kept in sync.
+ */
+
+export const COPILOT_THREADS_FILE_NAME = 'Copilot_Threads.json';
+
+export type DuplicateCommentMode = 'skip' | 'reply' | 'post';
+
+export type FingerprintedThread = {
+    threadId: number;
+    status?: string;
+    filePath: string | null;
+    startLine: number | null;
+    endLine: number | null;
+    fingerprint: string;
+};
+
+export type DuplicateCheck = {
+    mode: DuplicateCommentMode;
+    threads: FingerprintedThread[];
+    workingDirectory: string;
+};
+
+export function parseDuplicateCommentMode(input: string | undefined): DuplicateCommentMode {
+    return input === 'reply' || input === 'post' ? input : 'skip';
+}
+
+function normalizeFilePath(filePath: string | null | undefined): string {
+    if (!filePath) {
+        return '';
+    }
+    const normalized = filePath.trim().replace(/\\/g, '/');
+    return (normalized.startsWith('/') ? normalized : `/${normalized}`).toLowerCase();
+}
+
+/**
+ * Drops the Copilot tag, the file/line suffix of fallback comments and markdown emphasis, and
+ * collapses whitespace, so reruns that only differ in formatting produce the same text.
+ */
+export function normalizeCommentBody(body: string): string {
+    return body
+        .replace(/_?\[Generated by GitHub Copilot\]_?/g, '')
+        .split(/\r?\n/)
+        .filter(line => !/^\s*\*\*(File:\*\*.*|Lines? \d+(-\d+)?\*\*)\s*$/.test(line))
+        .join('\n')
+        .replace(/[*_`#>]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+}
+
+/**
+ * Lines startLine..endLine of the content (all lines when no range is given), with whitespace collapsed
+ * and blank lines removed.
+ */
+export function extractSnippet(content: string, startLine = 1, endLine?: number | null): string {
+    const lines = content.split(/\r?\n/);
+    return lines
+        .slice(startLine - 1, endLine ?? lines.length)
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(line => line.length > 0)
+        .join('\n');
+}
+
+/**
+ * The anchored lines of a file in the working directory, normalized like extractSnippet.
+ * Returns an empty string when the file cannot be read.
+ */
+export function readAnchoredSnippet(workingDirectory: string, filePath: string, startLine: number, endLine?: number | null): string {
+    let content: string;
+    try {
+        content = fs.readFileSync(path.join(workingDirectory, ...filePath.split(/[\\/]+/).filter(Boolean)), 'utf8');
+    } catch {
+        return '';
+    }
+
+    return extractSnippet(content, startLine, endLine ?? startLine);
+}
+
+export function computeFingerprint(filePath: string | null | undefined, snippet: string, body: string): string {
+    const text = `${normalizeFilePath(filePath)}\n${snippet}\n${normalizeCommentBody(body)}`;
+    return crypto.createHash('sha256').update(text, 'utf8').digest('hex').substring(0, 16);
+}
+
+export function computeCommentFingerprint(
+    workingDirectory: string,
+    content: string,
+    filePath?: string | null,
+    startLine?: number | null,
+    endLine?: number | null
+): string {
+    const snippet = filePath && startLine ? readAnchoredSnippet(workingDirectory, filePath, startLine, endLine) : '';
+    return computeFingerprint(filePath, snippet, content);
+}
+
+/**
+ * The fingerprint stored on the thread when it was created. Threads created before fingerprints
+ * were introduced are fingerprinted from their first comment and the code currently at their lines.
+ */
+export function getThreadFingerprint(thread: PullRequestThread, workingDirectory: string): string {
+    const stored = thread.properties?.[THREAD_FINGERPRINT_PROPERTY]?.$value;
+    if (stored) {
+        return String(stored);
+    }
+
+    const context = thread.threadContext;
+    return computeCommentFingerprint(
+        workingDirectory,
+        thread.comments[0]?.content ?? '',
+        context?.filePath,
+        context?.rightFileStart?.line,
+        context?.rightFileEnd?.line
+    );
+}
+
+export function fingerprintCopilotThreads(threads: PullRequestThread[], workingDirectory: string): FingerprintedThread[] {
+    return getCopilotThreads(threads).map(thread => ({
+        threadId: thread.id,
+        status: thread.status,
+        filePath: thread.threadContext?.filePath ?? null,
+        startLine: thread.threadContext?.rightFileStart?.line ?? null,
+        endLine: thread.threadContext?.rightFileEnd?.line ?? null,
+        fingerprint: getThreadFingerprint(thread, workingDirectory)
+    }));
+}
+
+export function findDuplicateThread(fingerprint: string, threads: FingerprintedThread[]): FingerprintedThread | undefined {
+    return threads.find(thread => thread.fingerprint === fingerprint);
+}
+
+export function writeCopilotThreadsFile(threads: FingerprintedThread[], filePath: string): void {
+    fs.writeFileSync(filePath, JSON.stringify({ threads }, null, 2), 'utf8');
+}
@@ -0,0 +1,299 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    AzureDevOpsConnection,
+    GitPullRequestChange,
+    PullRequestThread,
+    ThreadStatus,
+    addComment,
+    createThread
+} from './azureDevOpsClient';
+import { DuplicateCheck, computeCommentFingerprint, findDuplicateThread } from './duplicates';
+import { JsonSchema, validateJsonSchema } from './jsonSchema';
+import { LineRange } from './prDiff';
+import { THREAD_FINGERPRINT_PROPERTY } from './reviewState';
+
+/**
+ * Structured findings mode: Copilot writes its review to a JSON file (see scripts/findings.schema.json)
+ * instead of posting comments itself. The task validates the file and posts the comments.
+ */
+
+export const FINDINGS_FILE_NAME = 'Copilot_Findings.json';
+
+const COPILOT_TAG = '_[Generated by GitHub Copilot]_';
+
+export type FindingSeverity = 'info' | 'minor' | 'major' | 'critical';
+export type FindingStatus = 'passed' | 'questions' | 'notPassed';
+
+export type Finding = {
+    file?: string | null;
+    startLine?: number | null;
+    endLine?: number | null;
+    severity: FindingSeverity;
+    status: FindingStatus;
+    body: string;
+};
+
+export type PostedFinding = {
+    finding: Finding;
+    threadId: number;
+    inline: boolean;
+    reply?: boolean;
+};
+
+export type PostFindingsOptions = {
+    properties?: Record<string, string | number>;
+    duplicates?: DuplicateCheck;
+};
+
+const FINDINGS_SCHEMA_FILE = path.join(__dirname, 'scripts', 'findings.schema.json');
+
+export const STATUS_LABELS: Record<FindingStatus, string> = {
+    passed: '✅ Passed',
+    questions: '❓ Questions',
+    notPassed: '❌ Not Passed'
+};
+
+function normalizeFilePath(filePath: string): string {
+    const normalized = filePath.trim().replace(/\\/g, '/');
+    return normalized.startsWith('/') ? normalized : `/${normalized}`;
+}
+
+/**
+ * Validates one raw entry against the finding definition of the findings schema, then checks the rules the
+ * schema does not express. Returns the error message, or undefined when valid.
+ */
+function validateFinding(entry: unknown, schema: JsonSchema): string | undefined {
+    const errors = validateJsonSchema(entry, { $ref: '#/definitions/finding', definitions: schema.definitions }, 'the entry');
+    if (errors.length > 0) {
+        return errors.join('; ');
+    }
+
+    const finding = entry as Finding;
+    if (finding.file && !finding.startLine) {
+        return 'startLine is required when file is set';
+    }
+    if (finding.startLine && finding.endLine && finding.endLine < finding.startLine) {
+        return 'endLine must not be before startLine';
+    }
+
+    return undefined;
+}
+
+function countLines(filePath: string): number | undefined {
+    try {
+        return fs.readFileSync(filePath, 'utf8').split(/\r?\n/).length;
+    } catch {
+        return undefined;
+    }
+}
+
+function formatLineRanges(ranges: LineRange[]): string {
+    return ranges.length > 0 ? ranges.map(range => `${range.startLine}-${range.endLine}`).join(', ') : 'none';
+}
+
+/**
+ * Reads and validates the findings file. Invalid entries, entries on files outside the iteration's
+ * changes, entries outside the changed lines (the hunks in changedLines, for the files listed there) and
+ * exact duplicates are dropped with a warning.
+ */
+export function loadFindings(
+    findingsFile: string,
+    changes: GitPullRequestChange[],
+    workingDirectory: string,
+    changedLines?: Map<string, LineRange[]>
+): Finding[] {
+    if (!fs.existsSync(findingsFile)) {
+        tl.warning(`Copilot did not write a findings file (${findingsFile}). No comments will be posted.`);
+        return [];
+    }
+
+    let document: unknown;
+    try {
+        document = JSON.parse(fs.readFileSync(findingsFile, 'utf8'));
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        tl.warning(`Findings file is not valid JSON and was ignored: ${errorMessage}`);
+        return [];
+    }
+
+    const entries = (document as { findings?: unknown })?.findings;
+    if (!Array.isArray(entries)) {
+        tl.warning('Findings file does not contain a "findings" array and was ignored.');
+        return [];
+    }
+
+    const schema = JSON.parse(fs.readFileSync(FINDINGS_SCHEMA_FILE, 'utf8')) as JsonSchema;
+    const changedFiles = new Set(
+        changes
+            .filter(change => change.item?.path && !change.changeType.includes('delete'))
+            .map(change => normalizeFilePath(change.item!.path!))
+    );
+    const seen = new Set<string>();
+    const findings: Finding[] = [];
+
+    entries.forEach((entry: unknown, index: number) => {
+        const error = validateFinding(entry, schema);
+        if (error) {
+            tl.warning(`Dropping finding #${index + 1}: ${error}.`);
+            return;
+        }
+
+        const finding = { ...(entry as Finding) };
+        if (finding.file) {
+            finding.file = normalizeFilePath(finding.file);
+            finding.endLine = finding.endLine ?? finding.startLine;
+
+            if (!changedFiles.has(finding.file)) {
+                tl.warning(`Dropping finding #${index + 1}: ${finding.file} is not part of the changes under review.`);
+                return;
+            }
+
+            const lineCount = countLines(path.join(workingDirectory, finding.file));
+            if (lineCount !== undefined && finding.endLine! > lineCount) {
+                tl.warning(`Dropping finding #${index + 1}: lines ${finding.startLine}-${finding.endLine} are outside ${finding.file} (${lineCount} lines).`);
+                return;
+            }
+
+            const hunks = changedLines?.get(finding.file);
+            if (hunks && !hunks.some(hunk => finding.startLine! <= hunk.endLine && finding.endLine! >= hunk.startLine)) {
+                tl.warning(`Dropping finding #${index + 1}: lines ${finding.startLine}-${finding.endLine} of ${finding.file} were not changed ` +
+                    `(changed lines: ${formatLineRanges(hunks)}).`);
+                return;
+            }
+        } else {
+            finding.file = null;
+            finding.startLine = null;
+            finding.endLine = null;
+        }
+
+        const key = JSON.stringify([finding.file, finding.startLine, finding.endLine, finding.body.trim()]);
+        if (seen.has(key)) {
+            tl.warning(`Dropping finding #${index + 1}: duplicate of an earlier finding.`);
+            return;
+        }
+        seen.add(key);
+        findings.push(finding);
+    });
+
+    console.log(`Validated ${findings.length} of ${entries.length} finding(s).`);
+    return findings;
+}
+
+export function getThreadStatus(finding: Finding): ThreadStatus {
+    return finding.status === 'passed' ? 'closed' : 'active';
+}
+
+export function formatFindingComment(finding: Finding): string {
+    let body = finding.body.trim();
+    if (!body.includes(COPILOT_TAG)) {
+        body += `\n\n${COPILOT_TAG}`;
+    }
+    return `**Status:** ${STATUS_LABELS[finding.status]}\n**Severity:** ${finding.severity}\n\n${body}`;
+}
+
+export function getFindingFingerprint(finding: Finding, workingDirectory: string): string {
+    return computeCommentFingerprint(workingDirectory, formatFindingComment(finding), finding.file, finding.startLine, finding.endLine);
+}
+
+/**
+ * Posts validated findings as PR threads. Inline findings that Azure DevOps rejects fall back to a
+ * general comment with the file/line information appended, like Add-AzureDevOpsPRComment.ps1.
+ * Findings that duplicate an existing Copilot thread are skipped or posted as a reply to that thread.
+ */
+export async function postFindings(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    iterationId: number | undefined,
+    findings: Finding[],
+    options: PostFindingsOptions = {}
+): Promise<PostedFinding[]> {
+    const posted: PostedFinding[] = [];
+    const duplicates = options.duplicates;
+
+    for (const finding of findings) {
+        const content = formatFindingComment(finding);
+        const status = getThreadStatus(finding);
+        const location = finding.file ? `${finding.file}:${finding.startLine}-${finding.endLine}` : 'PR-level';
+        let thread: PullRequestThread | undefined;
+        let inline = false;
+
+        const fingerprint = duplicates ? getFindingFingerprint(finding, duplicates.workingDirectory) : undefined;
+        const duplicate = duplicates && fingerprint && duplicates.mode !== 'post'
+            ? findDuplicateThread(fingerprint, duplicates.threads)
+            : undefined;
+        if (duplicate) {
+            if (duplicates!.mode === 'skip') {
+                console.log(`Skipped duplicate finding (${location}): matches Copilot thread #${duplicate.threadId}.`);
+                continue;
+            }
+            try {
+                await addComment(connection, pullRequestId, duplicate.threadId, content);
+            } catch (err: unknown) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                tl.warning(`Failed to reply to thread #${duplicate.threadId}: ${errorMessage}`);
+                continue;
+            }
+            console.log(`Replied to Copilot thread #${duplicate.threadId} instead of posting a duplicate finding (${location}).`);
+            posted.push({ finding, threadId: duplicate.threadId, inline: !!duplicate.filePath, reply: true });
+            continue;
+        }
+
+        const properties = fingerprint
+            ? { ...options.properties, [THREAD_FINGERPRINT_PROPERTY]: fingerprint }
+            : options.properties;
+
+        try {
+            if (finding.file && finding.startLine) {
+                try {
+                    thread = await createThread(connection, pullRequestId, {
+                        content,
+                        status,
+                        iterationId,
+                        properties,
+                        threadContext: {
+                            filePath: finding.file,
+                            rightFileStart: { line: finding.startLine, offset: 1 },
+                            rightFileEnd: { line: finding.endLine ?? finding.startLine, offset: 1 }
+                        }
+                    });
+                    inline = true;
+                } catch (err: unknown) {
+                    const errorMessage = err instanceof Error ? err.message : String(err);
+                    tl.warning(`Failed to post inline comment on ${finding.file}: ${errorMessage}. Falling back to a general comment.`);
+                    const lineInfo = finding.startLine === finding.endLine
+                        ? `Line ${finding.startLine}`
+                        : `Lines ${finding.startLine}-${finding.endLine}`;
+                    thread = await createThread(connection, pullRequestId, {
+                        content: `${content}\n\n**File:** \`${finding.file}\`\n**${lineInfo}**`,
+                        status,
+                        properties
+                    });
+                }
+            } else {
+                thread = await createThread(connection, pullRequestId, { content, status, properties });
+            }
+        } catch (err: unknown) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            tl.warning(`Failed to post finding: ${errorMessage}`);
+            continue;
+        }
+
+        console.log(`Posted thread #${thread.id} (${STATUS_LABELS[finding.status]}, ${location})`);
+        posted.push({ finding, threadId: thread.id, inline });
+        if (duplicates && fingerprint) {
+            // Later findings of this run (e.g. other batches) are checked against this thread too
+            duplicates.threads.push({
+                threadId: thread.id,
+                status,
+                filePath: finding.file ?? null,
+                startLine: finding.startLine ?? null,
+                endLine: finding.endLine ?? null,
+                fingerprint
+            });
+        }
+    }
+
+    return posted;
+}
@@ -3,6 +3,103 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as child_process from 'child_process';
 import * as os from 'os';
+import { AzureDevOpsAuthType, AzureDevOpsConnection, GitPullRequestChange, createThread, getPullRequestWebUrl, getThreads } from './azureDevOpsClient';
+import { stageArtifactFile } from './artifacts';
+import { rewritePullRequestDetails, writeIterationDetails, writePullRequestDetails } from './prDetails';
+import { closeStaleThreads, findStaleThreads } from './staleThreads';
+import { DEFAULT_WORK_ITEM_MAX_CHARS } from './workItems';
+import {
+    DEFAULT_DIFF_MAX_FILE_KB,
+    DEFAULT_DIFF_MAX_TOTAL_KB,
+    DIFF_FILE_NAME,
+    DiffBudget,
+    DiffContext,
+    LineRange,
+    getChangedLineRanges,
+    writeDiffFile
+} from './prDiff';
+import { PromptTemplateVariables, renderPromptText, resolvePromptIncludes } from './promptTemplate';
+import { SecretFinding, SecretRules, loadSecretRules, scanChangesForSecrets, toSecretReviewFinding } from './secretScan';
+import { CopilotEnvironmentOptions, parseEnvironmentVariableNames, registerSecrets } from './secrets';
+import { ReviewEngine, ReviewTimeoutError, createReviewEngine, escapeLoggingCommands, parseEngineArguments, parseModelList, parseReviewEngineName, withModelFallback } from './reviewEngine';
+import { VOTE_LABELS, castReviewerVote, resetVoteForNewIteration } from './reviewerVote';
+import {
+    DESCRIPTION_FILE_NAME,
+    DESCRIPTION_PROMPT_FILE_NAME,
+    DESCRIPTION_PROMPT_TEMPLATE,
+    buildDescriptionPrompt,
+    isDescriptionCurrent,
+    updateDescriptionSection
+} from './prDescription';
+import { ReviewStatusTarget, getPipelineRunUrl, getReviewStatusState, publishReviewStatus } from './prStatus';
+import {
+    CONVERSATION_PROMPT_TEMPLATE,
+    buildConversationPrompt,
+    getConversationPromptFileName,
+    getConversationThreads
+} from './conversation';
+import { THREAD_SECRET_SCAN_PROPERTY, getCopilotThreadProperties, getLastReviewedIteration, setLastReviewedIteration } from './reviewState';
+import { FINDINGS_FILE_NAME, Finding, formatFindingComment, getFindingFingerprint, getThreadStatus, loadFindings, postFindings } from './findings';
+import {
+    COPILOT_THREADS_FILE_NAME,
+    DuplicateCheck,
+    findDuplicateThread,
+    fingerprintCopilotThreads,
+    parseDuplicateCommentMode,
+    writeCopilotThreadsFile
+} from './duplicates';
+import {
+    ReviewStatusCounts,
+    collectReviewOutcome,
+    evaluateReviewResult,
+    getStatusLabel,
+    parseFailOnSeverity,
+    setOutputVariables
+} from './reviewOutcome';
+import { PathFilters, parsePatternList } from './pathFilters';
+import {
+    DRY_RUN_LOG_FILE,
+    DRY_RUN_REPORT_JSON_FILE,
+    DRY_RUN_REPORT_MARKDOWN_FILE,
+    DryRunAction,
+    countDryRunOpenThreads,
+    countDryRunStatusLabels,
+    formatDryRunReport,
+    getDryRunActivity,
+    getDryRunSummaryThreads,
+    readDryRunActions,
+    recordDryRunAction
+} from './dryRun';
+import {
+    MatchedPathInstruction,
+    ReviewConfig,
+    findReviewConfigFile,
+    loadReviewConfig,
+    matchPathInstructions,
+    parsePathInstructions
+} from './reviewConfig';
+import { RUN_SUMMARY_FILE_NAME, RunSummary, publishRunSummary, toSummaryThread } from './runSummary';
+import {
+    DEFAULT_SWEEP_MAX_PULL_REQUESTS,
+    SweepFilters,
+    SweepResult,
+    checkoutPullRequest,
+    getSweepRunSummaryFileName,
+    getSweepTaskResult,
+    parseSweepList,
+    publishSweepSummary,
+    selectSweepPullRequests
+} from './sweep';
+import {
+    BatchOptions,
+    ReviewBatch,
+    createReviewBatches,
+    getBatchFindingsFileName,
+    getBatchSummaryFileName,
+    isBatchingEnabled,
+    mergeWholeDiffReviews,
+    runBatches
+} from './batching';
 
 /**
  * Check if PowerShell 7 (pwsh) is available on the system
@@ -19,21 +116,56 @@ function checkPwshAvailable(): boolean {
     }
 }
 
-/**
- * Check if we're running on Windows
- */
-function isWindows(): boolean {
-    return process.platform === 'win32';
-}
+type ReviewScope = 'full' | 'sinceLastReview';
+
+type PullRequestReviewResult = {
+    result: tl.TaskResult;
+    message: string;
+    // Status label counts of the threads created by the review, when they could be evaluated
+    counts?: ReviewStatusCounts;
+};
+
+type IterationRange = {
+    iterationId: number;
+    baseIterationId?: number;
+    commitId?: string;
+    baseCommitId?: string;
+};
 
 type ReviewPromptSettings = {
     reviewBugs: boolean;
     reviewPerformance: boolean;
     reviewBestPractices: boolean;
     reviewWholeDiffAtOnce: boolean;
+    reviewAcceptanceCriteria: boolean;
     additionalPrompts: string[];
+    structuredFindings: boolean;
+    iterationRange?: IterationRange;
+    excludedFiles?: string[];
+    pathInstructions?: MatchedPathInstruction[];
+    batch?: ReviewBatch;
+    secretFindings?: SecretFinding[];
+    diffContext?: DiffContext;
+    // Set for custom prompts, which are rendered as templates
+    templateVariables?: PromptTemplateVariables;
 };
 
+function parseReviewScope(input: string | undefined): ReviewScope {
+    return input === 'sinceLastReview' ? 'sinceLastReview' : 'full';
+}
+
+/**
+ * On/off inputs that the review config file can set are pick lists: `config` (the default) takes the
+ * file's value, or the task default without one; `true` and `false` override the file.
+ */
+function getBoolSetting(name: string, taskDefault: boolean, configValue: boolean | undefined): boolean {
+    const inputValue = (tl.getInput(name, false) || 'config').trim().toLowerCase();
+    if (inputValue === 'true' || inputValue === 'false') {
+        return inputValue === 'true';
+    }
+    return configValue ?? taskDefault;
+}
+
 function parseAdditionalPrompts(input: string | undefined): string[] {
     if (!input) {
         return [];
@@ -57,6 +189,10 @@ function buildReviewFocusLines(settings: ReviewPromptSettings): string[] {
     if (settings.reviewBestPractices) {
         lines.push('- Provide details on missed use of best practices.');
     }
+    if (settings.reviewAcceptanceCriteria) {
+        lines.push('- Compare the changes with the acceptance criteria and repro steps in the Work Item Details section of PR_Details.txt. ' +
+            'Flag acceptance criteria that the changes do not appear to cover.');
+    }
 
     for (const prompt of settings.additionalPrompts) {
         lines.push(`- ${prompt}`);
@@ -161,14 +297,195 @@ General positive/pass comment example:
 `;
 }
 
+function buildPathInstructionsSection(settings: ReviewPromptSettings): string {
+    // In batched mode only the instructions for the batch's own files are relevant
+    const batchFiles = settings.batch ? new Set(settings.batch.files) : undefined;
+    const pathInstructions = (settings.pathInstructions ?? [])
+        .map(entry => ({ ...entry, files: batchFiles ? entry.files.filter(file => batchFiles.has(file)) : entry.files }))
+        .filter(entry => entry.files.length > 0);
+    if (pathInstructions.length === 0) {
+        return '';
+    }
+
+    const maxListed = 10;
+    const lines = pathInstructions.map(entry => {
+        const listedFiles = entry.files.slice(0, maxListed).join(', ');
+        const more = entry.files.length > maxListed ? ` and ${entry.files.length - maxListed} more` : '';
+        return `- For files under ${entry.path} (${listedFiles}${more}), also check: ${entry.instructions}`;
+    });
+
+    return `
+PATH-SPECIFIC REVIEW INSTRUCTIONS
+
+Apply these additional checks to the matching changed files only:
+${lines.join('\n')}
+`;
+}
+
+function buildExcludedFilesSection(settings: ReviewPromptSettings): string {
+    const excludedFiles = settings.excludedFiles ?? [];
+    if (excludedFiles.length === 0) {
+        return '';
+    }
+
+    const maxListed = 100;
+    const listedFiles = excludedFiles.slice(0, maxListed).map(file => `- ${file}`);
+    if (excludedFiles.length > maxListed) {
+        listedFiles.push(`- ... and ${excludedFiles.length - maxListed} more (see Iteration_Details.txt)`);
+    }
+
+    return `
+OUT-OF-SCOPE FILES
+
+The following changed files are excluded from this review by path filters (generated code, lockfiles, binaries, etc.).
+Do not review them and do not post comments on them:
+${listedFiles.join('\n')}
+`;
+}
+
+function buildSecretScanSection(settings: ReviewPromptSettings): string {
+    const secretFindings = settings.secretFindings ?? [];
+    if (secretFindings.length === 0) {
+        return '';
+    }
+
+    const listedFindings = secretFindings.map(finding =>
+        `- ${finding.filePath} line ${finding.line}: ${finding.description} (${finding.maskedValue})`);
+
+    return `
+SECRET SCAN FINDINGS
+
+The pipeline task scanned the added lines for secrets before this review and has already posted a comment for each of these findings.
+Do not post comments about these secrets again:
+${listedFindings.join('\n')}
+`;
+}
+
+function buildReviewScopeSection(settings: ReviewPromptSettings): string {
+    const range = settings.iterationRange;
+    if (!range || range.baseIterationId === undefined) {
+        return '';
+    }
+
+    const diffHint = range.baseCommitId && range.commitId
+        ? `\nTo inspect only the new changes, compare the source commits of the two iterations (e.g. git diff ${range.baseCommitId} ${range.commitId}).`
+        : '';
+
+    return `
+INCREMENTAL REVIEW SCOPE (reviewScope = sinceLastReview)
+
+Iteration #${range.baseIterationId} of this pull request was already reviewed by Copilot.
+Iteration_Details.txt lists only the files changed between iteration #${range.baseIterationId} and iteration #${range.iterationId}.
+Limit new feedback to changes introduced after iteration #${range.baseIterationId}. Do not repeat feedback on code that was already reviewed.${diffHint}
+`;
+}
+
+function buildDiffSection(settings: ReviewPromptSettings): string {
+    const diffContext = settings.diffContext;
+    if (!diffContext) {
+        return '';
+    }
+
+    const incomplete = [...diffContext.truncatedFiles, ...diffContext.omittedFiles];
+    const incompleteNote = incomplete.length > 0
+        ? `\nThe diffs of these files are truncated or missing because of the size budget. Use git commands or read the files to review them:\n${incomplete.map(file => `- ${file}`).join('\n')}`
+        : '';
+
+    return `
+PRE-COMPUTED DIFF
+
+The unified diffs of the changed files in scope have been saved to the ${DIFF_FILE_NAME} file (base and target commit are listed at the top).
+Use it as the primary source for what changed instead of computing the diff with git commands. Line numbers in the @@ headers refer to the changed version on the + side.${incompleteNote}
+`;
+}
+
+function buildBatchSection(settings: ReviewPromptSettings): string {
+    const batch = settings.batch;
+    if (!batch) {
+        return '';
+    }
+
+    const outputRule = settings.reviewWholeDiffAtOnce
+        ? `
+Do not post the consolidated review comment yourself and do not run Add-CopilotComment.ps1 for it.
+Instead, write the consolidated review markdown (## Summary of changes, ## Feedback on files with rows for this batch's files only, ## Detailed comments) to the file ${getBatchSummaryFileName(batch)} in the working directory.
+The pipeline task merges the reviews of all batches into one consolidated PR comment.`
+        : '';
+
+    return `
+BATCHED REVIEW (BATCH ${batch.index} OF ${batch.count})
+
+This pull request is too large for a single review session. Its changed files are split into ${batch.count} batches that are reviewed by separate Copilot sessions running in parallel.
+Review only the following files in this session. The other changed files are reviewed by other sessions; do not comment on them:
+${batch.files.map(file => `- ${file}`).join('\n')}
+
+Only update or resolve previous Copilot threads on the files above.${batch.index === 1 ? ' This session also handles previous PR-level (general) Copilot threads.' : ' Leave previous PR-level (general) Copilot threads untouched.'}${outputRule}
+`;
+}
+
+function buildFindingsOutputSection(settings: ReviewPromptSettings): string {
+    if (!settings.structuredFindings) {
+        return '';
+    }
+    if (settings.batch && settings.reviewWholeDiffAtOnce) {
+        // The batch summary file replaces the findings file; the task posts the merged comment
+        return '';
+    }
+
+    const findingsFileName = settings.batch ? getBatchFindingsFileName(settings.batch) : FINDINGS_FILE_NAME;
+
+    const modeRule = settings.reviewWholeDiffAtOnce
+        ? `- Write exactly one finding with "file" set to null containing the consolidated review (summary, file table and detailed comments) as its body.
+- Set its status to "passed" only when every file row is ✅ Passed, "notPassed" if any row is ❌ Not Passed, otherwise "questions".`
+        : `- Write one finding per actionable issue or question. Use an empty "findings" array when there is nothing to report (instead of NO_COMMENT).`;
+
+    return `
+STRUCTURED FINDINGS MODE IS ENABLED (OVERRIDES ALL COMMENT POSTING INSTRUCTIONS ABOVE)
+
+Do not run Add-CopilotComment.ps1 or Add-AzureDevOpsPRComment.ps1 and do not post comments to the pull request yourself.
+Instead, write all new feedback to the file ${findingsFileName} in the working directory. The pipeline task validates this file and posts the comments.
+Resolving previous Copilot threads with Update-CopilotComment.ps1 is still allowed.
+
+The file must contain a JSON object with this shape:
+{ "findings": [ { "file": "/src/App.cs", "startLine": 42, "endLine": 45, "severity": "major", "status": "notPassed", "body": "Markdown comment text" } ] }
+
+Rules for each finding:
+- "file": path of a changed file listed in Iteration_Details.txt, using forward slashes and a leading slash. Use null for PR-level feedback. Entries for other files are dropped.
+- "startLine" / "endLine": 1-based lines in the current (changed) version of the file. "startLine" is required when "file" is set; "endLine" defaults to "startLine". The lines must overlap a changed hunk of the file (see PR_Diff.txt); entries on unchanged lines are dropped.
+- "severity": one of "info", "minor", "major", "critical".
+- "status": "passed" (✅ Passed), "questions" (❓ Questions) or "notPassed" (❌ Not Passed).
+- "body": markdown comment text without the status line. The task adds the status line and the Copilot tag.
+- Do not add any other properties.
+${modeRule}
+`;
+}
+
 function renderPromptTemplate(templateContent: string, settings: ReviewPromptSettings, customPromptText?: string): string {
     let rendered = templateContent;
 
     if (rendered.includes('%CUSTOMPROMPT%')) {
-        rendered = rendered.replace('%CUSTOMPROMPT%', customPromptText ?? '');
+        let customPrompt = customPromptText ?? '';
+        if (customPrompt && settings.templateVariables) {
+            // A batch only reviews its own files
+            const changedFiles = settings.batch ? settings.batch.files.join('\n') : settings.templateVariables.changedFiles;
+            customPrompt = renderPromptText(customPrompt, { ...settings.templateVariables, changedFiles });
+        }
+        rendered = rendered.replace('%CUSTOMPROMPT%', () => customPrompt);
     }
 
-    return `${rendered.trim()}\n\n${buildReviewBehaviorSection(settings).trim()}\n`;
+    const sections = [
+        rendered.trim(),
+        buildReviewScopeSection(settings).trim(),
+        buildDiffSection(settings).trim(),
+        buildExcludedFilesSection(settings).trim(),
+        buildSecretScanSection(settings).trim(),
+        buildPathInstructionsSection(settings).trim(),
+        buildReviewBehaviorSection(settings).trim(),
+        buildBatchSection(settings).trim(),
+        buildFindingsOutputSection(settings).trim()
+    ].filter(Boolean);
+
+    return `${sections.join('\n\n')}\n`;
 }
 
 async function run(): Promise<void> {
@@ -186,11 +503,29 @@ async function run(): Promise<void> {
         }
         console.log('PowerShell 7 (pwsh) is available.');
 
-        // Check author filter first (before any other processing)
-        const authors = tl.getInput('authors');
-        if (authors) {
+        // Load the repository review config (.copilot-review.yml). Task inputs take precedence over it.
+        // filePath inputs return the working directory when empty, so only a file counts as explicitly set.
+        const workingDirectory = tl.getVariable('System.DefaultWorkingDirectory') || process.cwd();
+        const configFileInput = tl.getInput('configFile');
+        const explicitConfigFile = configFileInput && !(fs.existsSync(configFileInput) && fs.statSync(configFileInput).isDirectory())
+            ? configFileInput
+            : undefined;
+        const configFilePath = findReviewConfigFile(workingDirectory, explicitConfigFile);
+        let reviewConfig: ReviewConfig = {};
+        if (configFilePath) {
+            reviewConfig = loadReviewConfig(configFilePath).config;
+            console.log(`Using review config file: ${configFilePath}`);
+        } else {
+            console.log('No review config file found. Using task inputs only.');
+        }
+
+        // Check author filter first (before any other processing). In sweep mode it filters the pull requests instead.
+        const sweep = tl.getBoolInput('sweep', false);
+        const authorsInput = tl.getInput('authors');
+        const authors = authorsInput ? authorsInput.split(',') : reviewConfig.authors;
+        if (authors && authors.length > 0 && !sweep) {
             const requestedForEmail = tl.getVariable('Build.RequestedForEmail') || '';
-            const authorList = authors.split(',').map(email => email.trim().toLowerCase());
+            const authorList = authors.map(email => email.trim().toLowerCase());
             const currentAuthor = requestedForEmail.toLowerCase();
             
             console.log('='.repeat(60));
@@ -221,7 +556,7 @@ async function run(): Promise<void> {
         
         // Determine which token and auth type to use
         let azureDevOpsToken: string;
-        let azureDevOpsAuthType: string;
+        let azureDevOpsAuthType: AzureDevOpsAuthType;
         
         if (useSystemAccessToken) {
             // Use System.AccessToken (OAuth Bearer token)
@@ -245,6 +580,9 @@ async function run(): Promise<void> {
                 'Azure DevOps authentication is required. Either provide an Azure DevOps PAT or enable "Use System Access Token".');
             return;
         }
+
+        // Mask the tokens in the task log, including the output of the Copilot process and the scripts
+        registerSecrets(githubPat, azureDevOpsToken);
         
         // Get inputs with defaults from pipeline variables
         let organization = tl.getInput('organization');
@@ -291,25 +629,94 @@ async function run(): Promise<void> {
         // Get optional inputs
         let pullRequestId = tl.getInput('pullRequestId');
         const timeoutMinutes = parseInt(tl.getInput('timeout') || '15', 10);
-        const model = tl.getInput('model');
-        const reviewBugs = tl.getBoolInput('reviewBugs', false);
-        const reviewPerformance = tl.getBoolInput('reviewPerformance', false);
-        const reviewBestPractices = tl.getBoolInput('reviewBestPractices', false);
-        const reviewWholeDiffAtOnce = tl.getBoolInput('reviewWholeDiffAtOnce', false);
-        const additionalPrompts = parseAdditionalPrompts(tl.getInput('additionalPrompts') || undefined);
+        const overallTimeoutMinutes = parseInt(tl.getInput('overallTimeout') || '60', 10);
+        const batchOptions: BatchOptions = {
+            maxFiles: parseInt(tl.getInput('batchMaxFiles') || '0', 10) || 0,
+            maxSizeKb: parseInt(tl.getInput('batchMaxSizeKb') || '0', 10) || 0
+        };
+        const batchConcurrency = Math.max(1, parseInt(tl.getInput('batchConcurrency') || '2', 10) || 1);
+        const model = tl.getInput('model') || reviewConfig.model;
+        const fallbackModelsInput = parseModelList(tl.getInput('fallbackModels') || undefined);
+        const fallbackModels = fallbackModelsInput.length > 0 ? fallbackModelsInput : reviewConfig.fallbackModels ?? [];
+        const reviewBugs = getBoolSetting('reviewBugs', true, reviewConfig.reviewBugs);
+        const reviewPerformance = getBoolSetting('reviewPerformance', true, reviewConfig.reviewPerformance);
+        const reviewBestPractices = getBoolSetting('reviewBestPractices', true, reviewConfig.reviewBestPractices);
+        const reviewWholeDiffAtOnce = getBoolSetting('reviewWholeDiffAtOnce', false, reviewConfig.reviewWholeDiffAtOnce);
+        const reviewAcceptanceCriteria = getBoolSetting('reviewAcceptanceCriteria', false, reviewConfig.reviewAcceptanceCriteria);
+        const workItemMaxCharsInput = parseInt(tl.getInput('workItemMaxChars') || `${DEFAULT_WORK_ITEM_MAX_CHARS}`, 10);
+        const workItemMaxChars = isNaN(workItemMaxCharsInput) ? DEFAULT_WORK_ITEM_MAX_CHARS : Math.max(0, workItemMaxCharsInput);
+        const diffMaxFileKb = parseInt(tl.getInput('diffMaxFileKb') || `${DEFAULT_DIFF_MAX_FILE_KB}`, 10);
+        const diffMaxTotalKb = parseInt(tl.getInput('diffMaxTotalKb') || `${DEFAULT_DIFF_MAX_TOTAL_KB}`, 10);
+        const diffBudget: DiffBudget = {
+            maxFileBytes: (isNaN(diffMaxFileKb) ? DEFAULT_DIFF_MAX_FILE_KB : Math.max(0, diffMaxFileKb)) * 1024,
+            maxTotalBytes: (isNaN(diffMaxTotalKb) ? DEFAULT_DIFF_MAX_TOTAL_KB : Math.max(0, diffMaxTotalKb)) * 1024
+        };
+        const additionalPromptsInput = parseAdditionalPrompts(tl.getInput('additionalPrompts') || undefined);
+        const additionalPrompts = additionalPromptsInput.length > 0 ? additionalPromptsInput : reviewConfig.additionalPrompts ?? [];
+        const reviewScope = parseReviewScope(tl.getInput('reviewScope') || undefined);
+        const structuredFindings = tl.getBoolInput('structuredFindings', false);
+        const duplicateComments = parseDuplicateCommentMode(tl.getInput('duplicateComments') || undefined);
+        const closeStaleThreadsEnabled = tl.getBoolInput('closeStaleThreads', false);
+        const conversationMode = tl.getBoolInput('conversationMode', false);
+        const vote = tl.getBoolInput('vote', false);
+        const describePullRequest = tl.getBoolInput('describePullRequest', false);
+        const publishStatus = tl.getBoolInput('publishStatus', false);
+        const engine: ReviewEngine = withModelFallback(createReviewEngine(parseReviewEngineName(tl.getInput('engine') || undefined), {
+            command: tl.getInput('engineCommand')?.trim() ?? '',
+            args: parseEngineArguments(tl.getInput('engineArguments') || undefined)
+        }), fallbackModels);
+        const copilotEnvironmentVariables = parseEnvironmentVariableNames(tl.getInput('copilotEnvironmentVariables') || undefined);
+        const dryRun = tl.getBoolInput('dryRun', false);
+        const failOnSeverity = parseFailOnSeverity(tl.getInput('failOnSeverity') || undefined);
+        const pathInstructionsInput = parsePathInstructions(tl.getInput('pathInstructions') || undefined);
+        const pathInstructions = pathInstructionsInput.length > 0 ? pathInstructionsInput : reviewConfig.pathInstructions ?? [];
+        const includePathsInput = parsePatternList(tl.getInput('includePaths') || undefined);
+        const excludePathsInput = parsePatternList(tl.getInput('excludePaths') || undefined);
+        const pathFilters: PathFilters = {
+            includePaths: includePathsInput.length > 0 ? includePathsInput : reviewConfig.includePaths ?? [],
+            excludePaths: excludePathsInput.length > 0 ? excludePathsInput : reviewConfig.excludePaths ?? [],
+            useDefaultExcludes: getBoolSetting('useDefaultExcludes', true, reviewConfig.useDefaultExcludes)
+        };
         const promptFile = tl.getInput('promptFile');
+        const failOnSecrets = tl.getBoolInput('failOnSecrets', false);
+        const scanSecrets = tl.getBoolInput('scanSecrets', false) || failOnSecrets;
+        const secretScanRulesFileInput = tl.getInput('secretScanRulesFile');
+        const secretScanRulesFile = secretScanRulesFileInput && !(fs.existsSync(secretScanRulesFileInput) && fs.statSync(secretScanRulesFileInput).isDirectory())
+            ? secretScanRulesFileInput
+            : undefined;
+        const secretRules: SecretRules | undefined = scanSecrets ? loadSecretRules(secretScanRulesFile) : undefined;
         const prompt = tl.getInput('prompt');
         const promptRaw = tl.getInput('promptRaw');
         const promptFileRaw = tl.getInput('promptFileRaw');
+        const sweepMaxPullRequests = parseInt(tl.getInput('sweepMaxPullRequests') || `${DEFAULT_SWEEP_MAX_PULL_REQUESTS}`, 10);
+        const sweepFilters: SweepFilters = {
+            targetBranches: parseSweepList(tl.getInput('sweepTargetBranches') || undefined),
+            includeDrafts: tl.getBoolInput('sweepIncludeDrafts', false),
+            labels: parseSweepList(tl.getInput('sweepLabels') || undefined),
+            authors: authors ?? [],
+            onlyNewIterations: tl.getBoolInput('sweepOnlyNewIterations', true),
+            maxPullRequests: isNaN(sweepMaxPullRequests) ? DEFAULT_SWEEP_MAX_PULL_REQUESTS : Math.max(0, sweepMaxPullRequests)
+        };
 
-        // If PR ID not provided, try to get from pipeline variable
-        if (!pullRequestId) {
-            pullRequestId = tl.getVariable('System.PullRequest.PullRequestId');
-        }
+        if (sweep) {
+            if (pullRequestId) {
+                tl.warning('The pullRequestId input is ignored in sweep mode.');
+            }
+        } else {
+            // If PR ID not provided, try to get from pipeline variable
+            if (!pullRequestId) {
+                pullRequestId = tl.getVariable('System.PullRequest.PullRequestId');
+            }
 
-        if (!pullRequestId) {
-            tl.setResult(tl.TaskResult.Failed, 'Pull Request ID is required. Either provide it as an input or run this task as part of a PR validation build.');
-            return;
+            if (!pullRequestId) {
+                tl.setResult(tl.TaskResult.Failed, 'Pull Request ID is required. Either provide it as an input, run this task as part of a PR validation build, or enable sweep mode.');
+                return;
+            }
+
+            if (!/^\d+$/.test(pullRequestId.trim())) {
+                tl.setResult(tl.TaskResult.Failed, `Pull Request ID must be a positive integer. Received: ${pullRequestId}`);
+                return;
+            }
         }
 
         console.log('='.repeat(60));
@@ -318,350 +725,912 @@ async function run(): Promise<void> {
         console.log(`Collection URI: ${resolvedCollectionUri}`);
         console.log(`Project: ${project}`);
         console.log(`Repository: ${repository}`);
-        console.log(`Pull Request ID: ${pullRequestId}`);
+        if (sweep) {
+            console.log(`Sweep: active pull requests, max ${sweepFilters.maxPullRequests || 'unlimited'}, ` +
+                `target branches: ${sweepFilters.targetBranches.join(', ') || 'all'}, labels: ${sweepFilters.labels.join(', ') || 'any'}, ` +
+                `drafts: ${sweepFilters.includeDrafts}, only new iterations: ${sweepFilters.onlyNewIterations}`);
+        } else {
+            console.log(`Pull Request ID: ${pullRequestId}`);
+        }
+        console.log(`Review engine: ${engine.displayName}`);
         console.log(`Timeout: ${timeoutMinutes} minutes`);
+        if (isBatchingEnabled(batchOptions)) {
+            console.log(`Batched review: max ${batchOptions.maxFiles || 'unlimited'} files / ${batchOptions.maxSizeKb || 'unlimited'} KB per batch, ` +
+                `concurrency ${batchConcurrency}, overall timeout ${overallTimeoutMinutes} minutes`);
+        }
         if (model) {
             console.log(`Model: ${model}`);
         }
+        if (fallbackModels.length > 0) {
+            console.log(`Fallback models: ${fallbackModels.join(', ')}`);
+        }
         console.log(`Review bugs: ${reviewBugs}`);
         console.log(`Review performance: ${reviewPerformance}`);
         console.log(`Review best practices: ${reviewBestPractices}`);
         console.log(`Review whole diff at once: ${reviewWholeDiffAtOnce}`);
+        console.log(`Review acceptance criteria: ${reviewAcceptanceCriteria}`);
+        console.log(`Work item details: ${workItemMaxChars > 0 ? `up to ${workItemMaxChars} characters per work item` : 'disabled'}`);
+        console.log(`Pre-computed diff: ${diffBudget.maxTotalBytes > 0
+            ? `${DIFF_FILE_NAME}, up to ${diffBudget.maxFileBytes / 1024 || 'unlimited'} KB per file and ${diffBudget.maxTotalBytes / 1024} KB in total`
+            : 'disabled'}`);
+        console.log(`Review scope: ${reviewScope}`);
+        console.log(`Duplicate comments: ${duplicateComments}`);
+        console.log(`Close stale threads: ${closeStaleThreadsEnabled}`);
+        console.log(`Conversation mode: ${conversationMode}`);
+        console.log(`Reviewer vote: ${vote}`);
+        console.log(`Describe pull request: ${describePullRequest}`);
+        console.log(`Publish PR status: ${publishStatus}`);
+        console.log(`Secret scan: ${scanSecrets}${failOnSecrets ? ' (fail on secrets)' : ''}${secretScanRulesFile ? `, rules file: ${secretScanRulesFile}` : ''}`);
+        if (copilotEnvironmentVariables.length > 0) {
+            console.log(`Additional Copilot environment variables: ${copilotEnvironmentVariables.join(', ')}`);
+        }
+        console.log(`Structured findings: ${structuredFindings}`);
+        console.log(`Fail on severity: ${failOnSeverity}`);
+        console.log(`Dry run: ${dryRun}`);
+        if (pathFilters.includePaths.length > 0) {
+            console.log(`Include paths: ${pathFilters.includePaths.join(', ')}`);
+        }
+        if (pathFilters.excludePaths.length > 0) {
+            console.log(`Exclude paths: ${pathFilters.excludePaths.join(', ')}`);
+        }
+        console.log(`Use default excludes: ${pathFilters.useDefaultExcludes}`);
+        if (pathInstructions.length > 0) {
+            console.log(`Path instructions: ${pathInstructions.map(entry => entry.path).join(', ')}`);
+        }
         if (additionalPrompts.length > 0) {
             console.log(`Additional prompts: ${additionalPrompts.join(' | ')}`);
         }
         console.log('='.repeat(60));
 
-        // Set environment variables for PowerShell scripts
+        // Set environment variables for PowerShell scripts. The Copilot process only gets an allowlisted subset
+        // (see secrets.ts); the Azure DevOps token is left out in dry-run mode, where the scripts only record.
         process.env['GH_TOKEN'] = githubPat;
         process.env['AZUREDEVOPS_TOKEN'] = azureDevOpsToken;
         process.env['AZUREDEVOPS_AUTH_TYPE'] = azureDevOpsAuthType;
         process.env['AZUREDEVOPS_COLLECTION_URI'] = resolvedCollectionUri;
         process.env['PROJECT'] = project;
         process.env['REPOSITORY'] = repository;
-        process.env['PRID'] = pullRequestId;
         process.env['REVIEW_WHOLE_DIFF_AT_ONCE'] = reviewWholeDiffAtOnce ? 'true' : 'false';
+        // Stored as thread properties on every thread this run creates (see Add-CopilotComment.ps1)
+        process.env['COPILOT_REVIEW_RUN_ID'] = tl.getVariable('Build.BuildId') ?? '';
+        process.env['COPILOT_REVIEW_MODEL'] = model ?? '';
+
+        if (dryRun) {
+            console.log('DRY RUN: nothing will be written to the pull request.');
+        }
+        const copilotEnvironment: CopilotEnvironmentOptions = {
+            includeAzureDevOpsToken: !dryRun,
+            additionalVariables: copilotEnvironmentVariables
+        };
+        const secrets = [githubPat, azureDevOpsToken];
 
         const scriptsDir = path.join(__dirname, 'scripts');
-        const workingDirectory = tl.getVariable('System.DefaultWorkingDirectory') || process.cwd();
-        const reviewPromptSettings: ReviewPromptSettings = {
+        const baseReviewPromptSettings: ReviewPromptSettings = {
             reviewBugs,
             reviewPerformance,
             reviewBestPractices,
             reviewWholeDiffAtOnce,
-            additionalPrompts
+            reviewAcceptanceCriteria,
+            additionalPrompts,
+            structuredFindings
+        };
+        console.log('Effective review settings (task inputs merged over the review config file):');
+        console.log(JSON.stringify(baseReviewPromptSettings, null, 2));
+
+        const connection: AzureDevOpsConnection = {
+            collectionUri: resolvedCollectionUri,
+            project,
+            repository,
+            token: azureDevOpsToken,
+            authType: azureDevOpsAuthType
         };
+        // Reviews one pull request checked out in workingDirectory and returns its result; the caller sets the
+        // task result (one PR or a sweep)
+        const reviewPullRequest = async (pullRequestNumber: number, summaryFileName: string, workingDirectory: string): Promise<PullRequestReviewResult> => {
+            const reviewStartTime = Date.now();
+            let runSummary: RunSummary | undefined;
+            let statusTarget: ReviewStatusTarget | undefined;
+            // The iteration range, path instructions, excluded files and secret findings are added per pull request
+            const reviewPromptSettings: ReviewPromptSettings = { ...baseReviewPromptSettings };
+            process.env['PRID'] = pullRequestNumber.toString();
+            delete process.env['ITERATION_ID'];
+            // In dry-run mode the comment scripts and the task record their PR writes in this log instead
+            const dryRunLog = dryRun ? path.join(workingDirectory, DRY_RUN_LOG_FILE) : undefined;
+            if (dryRunLog) {
+                process.env['COPILOT_DRY_RUN_LOG'] = dryRunLog;
+                removeFileIfExists(dryRunLog);
+            }
 
-        // Step 1: Install GitHub Copilot CLI if not present
-        console.log('\n[Step 1/4] Checking GitHub Copilot CLI installation...');
-        const copilotInstalled = await checkCopilotCli();
-        if (!copilotInstalled) {
-            console.log('GitHub Copilot CLI not found. Installing...');
-            await installCopilotCli();
-        } else {
-            console.log('GitHub Copilot CLI is already installed.');
-        }
+            try {
+                // Step 1: Install the review engine (GitHub Copilot CLI by default) if not present
+                console.log(`\n[Step 1/4] Checking ${engine.displayName} installation...`);
+                if (publishStatus) {
+                    statusTarget = { connection, pullRequestId: pullRequestNumber, targetUrl: getPipelineRunUrl(), dryRun };
+                    await publishReviewStatus(statusTarget, 'pending', 'Copilot code review in progress...');
+                }
+                const engineInstalled = await engine.detect();
+                if (!engineInstalled) {
+                    console.log(`${engine.displayName} not found. Installing...`);
+                    await engine.install();
+                } else {
+                    console.log(`${engine.displayName} is already installed.`);
+                }
 
-        // Step 2: Fetch PR details
-        console.log('\n[Step 2/4] Fetching pull request details...');
-        const prDetailsScript = path.join(scriptsDir, 'Get-AzureDevOpsPR.ps1');
-        const prDetailsOutput = path.join(workingDirectory, 'PR_Details.txt');
-        
-        await runPowerShellScript(prDetailsScript, [
-            `-Token "${azureDevOpsToken}"`,
-            `-AuthType "${azureDevOpsAuthType}"`,
-            `-CollectionUri "${resolvedCollectionUri}"`,
-            `-Project "${project}"`,
-            `-Repository "${repository}"`,
-            `-Id ${pullRequestId}`,
-            `-OutputFile "${prDetailsOutput}"`
-        ]);
-        console.log(`PR details saved to: ${prDetailsOutput}`);
-
-        // Step 3: Fetch PR changes (iteration details)
-        console.log('\n[Step 3/4] Fetching pull request changes...');
-        const prChangesScript = path.join(scriptsDir, 'Get-AzureDevOpsPRChanges.ps1');
-        const iterationDetailsOutput = path.join(workingDirectory, 'Iteration_Details.txt');
+                // Step 2: Fetch PR details
+                console.log('\n[Step 2/4] Fetching pull request details...');
+                const prDetailsOutput = path.join(workingDirectory, 'PR_Details.txt');
+
+                const pullRequestContext = await writePullRequestDetails(connection, pullRequestNumber, prDetailsOutput, { workItemMaxChars });
+                console.log(`PR details saved to: ${prDetailsOutput}`);
+
+                const staleThreadIds = new Set<number>();
+                if (closeStaleThreadsEnabled) {
+                    console.log('\nChecking Copilot threads for code that no longer exists...');
+                    const staleThreads = await findStaleThreads(connection, pullRequestContext.threads, pullRequestContext.iterations);
+                    const closedThreads = await closeStaleThreads(connection, pullRequestNumber, staleThreads, dryRunLog);
+                    console.log(`Stale Copilot threads: ${closedThreads.length}${dryRun ? ' (dry run, not changed)' : ' closed'}`);
+                    closedThreads.forEach(staleThread => staleThreadIds.add(staleThread.thread.id));
+
+                    // The thread list in PR_Details.txt should not show the closed threads as active
+                    if (closedThreads.length > 0 && !dryRun) {
+                        const newStatuses = new Map(closedThreads.map(staleThread => [staleThread.thread.id, staleThread.status]));
+                        rewritePullRequestDetails({
+                            ...pullRequestContext,
+                            threads: pullRequestContext.threads.map(thread =>
+                                newStatuses.has(thread.id) ? { ...thread, status: newStatuses.get(thread.id) } : thread)
+                        }, connection, prDetailsOutput);
+                    }
+                }
+
+                // Resolve the iteration range to review
+                let compareToIterationId: number | undefined;
+                if (reviewScope === 'sinceLastReview') {
+                    const lastReviewedIteration = await getLastReviewedIteration(connection, pullRequestNumber);
+                    const iterations = pullRequestContext.iterations;
+                    const latestIterationId = iterations.length > 0 ? iterations[iterations.length - 1].id : undefined;
+
+                    if (lastReviewedIteration === undefined) {
+                        console.log('No previously reviewed iteration recorded. Reviewing the full pull request.');
+                    } else if (latestIterationId !== undefined && lastReviewedIteration >= latestIterationId) {
+                        console.log(`Iteration #${latestIterationId} was already reviewed. Nothing new has been pushed since the last review.`);
+                        return completeReview(statusTarget, tl.TaskResult.Succeeded, 'Skipped: no new iterations since the last Copilot review.');
+                    } else {
+                        compareToIterationId = lastReviewedIteration;
+                        console.log(`Last reviewed iteration: #${lastReviewedIteration}. Reviewing changes since then.`);
+                    }
+                }
+
+                // Step 3: Fetch PR changes (iteration details)
+                console.log('\n[Step 3/4] Fetching pull request changes...');
+                const iterationDetailsOutput = path.join(workingDirectory, 'Iteration_Details.txt');
+
+                const iterationContext = await writeIterationDetails(connection, pullRequestNumber, pullRequestContext.iterations, iterationDetailsOutput, {
+                    compareToIterationId,
+                    pathFilters
+                });
+                if (iterationContext) {
+                    console.log(`Iteration details saved to: ${iterationDetailsOutput}`);
+                    process.env['ITERATION_ID'] = iterationContext.iteration.id.toString();
+                    console.log(`Iteration ID set to: ${iterationContext.iteration.id}`);
+
+                    reviewPromptSettings.iterationRange = {
+                        iterationId: iterationContext.iteration.id,
+                        baseIterationId: iterationContext.compareToIteration?.id,
+                        commitId: iterationContext.iteration.sourceRefCommit?.commitId,
+                        baseCommitId: iterationContext.compareToIteration?.sourceRefCommit?.commitId
+                    };
+
+                    reviewPromptSettings.pathInstructions = matchPathInstructions(pathInstructions, iterationContext.changes);
+                    if (reviewPromptSettings.pathInstructions.length > 0) {
+                        console.log(`Path-specific instructions matching changed files: ${reviewPromptSettings.pathInstructions.map(entry => entry.path).join(', ')}`);
+                    }
+
+                    reviewPromptSettings.excludedFiles = iterationContext.excludedChanges
+                        .map(change => change.item?.path)
+                        .filter((filePath): filePath is string => !!filePath);
+
+                    if (iterationContext.changes.length === 0 && iterationContext.excludedChanges.length > 0) {
+                        console.log(`All ${iterationContext.excludedChanges.length} changed file(s) are excluded by the path filters (includePaths / excludePaths / default excludes).`);
+                        console.log('Skipping code review: nothing left to review.');
+                        await recordReviewedIteration(connection, pullRequestNumber, iterationContext.iteration.id, dryRun);
+                        return completeReview(statusTarget, tl.TaskResult.Succeeded, 'Skipped: all changed files are excluded by path filters.');
+                    }
+
+                    if (iterationContext.compareToIteration && iterationContext.changes.length === 0) {
+                        console.log(`No file changes since iteration #${iterationContext.compareToIteration.id}. Skipping code review.`);
+                        await recordReviewedIteration(connection, pullRequestNumber, iterationContext.iteration.id, dryRun);
+                        return completeReview(statusTarget, tl.TaskResult.Succeeded, 'Skipped: no file changes since the last Copilot review.');
+                    }
+                }
+
+                // Only reset once the new iteration is going to be reviewed: a skipped review casts no new vote
+                if (vote) {
+                    const iterations = pullRequestContext.iterations;
+                    await resetVoteForNewIteration(connection, pullRequestContext.pullRequest, iterations[iterations.length - 1]?.id, dryRun);
+                }
+
+                // Unified diffs of the changes in scope, so Copilot does not have to compute them with git
+                const diffOutput = path.join(workingDirectory, DIFF_FILE_NAME);
+                removeFileIfExists(diffOutput);
+                if (iterationContext && diffBudget.maxTotalBytes > 0) {
+                    reviewPromptSettings.diffContext = await writeDiffFile(connection, iterationContext, workingDirectory, diffOutput, diffBudget);
+                    const diffContext = reviewPromptSettings.diffContext;
+                    if (diffContext) {
+                        console.log(`Diffs of ${diffContext.files} file(s) saved to: ${diffOutput}`);
+                        if (diffContext.truncatedFiles.length > 0 || diffContext.omittedFiles.length > 0) {
+                            console.log(`Size budget reached: ${diffContext.truncatedFiles.length} diff(s) truncated, ${diffContext.omittedFiles.length} file(s) without diff.`);
+                        }
+                    }
+                }
+
+                // Structured findings must point at changed lines: the hunks of each changed file
+                const changedLines = structuredFindings && iterationContext
+                    ? await getChangedLineRanges(connection, iterationContext, workingDirectory)
+                    : undefined;
+
+                // Fingerprints of the existing Copilot threads, taken from the checked-out code of this iteration.
+                // Add-CopilotComment.ps1 reads them from Copilot_Threads.json; structured findings are checked in the task.
+                const duplicateCheck: DuplicateCheck = {
+                    mode: duplicateComments,
+                    threads: fingerprintCopilotThreads(pullRequestContext.threads, workingDirectory),
+                    workingDirectory
+                };
+                const copilotThreadsFile = path.join(workingDirectory, COPILOT_THREADS_FILE_NAME);
+                writeCopilotThreadsFile(duplicateCheck.threads, copilotThreadsFile);
+                process.env['COPILOT_THREADS_FILE'] = copilotThreadsFile;
+                process.env['COPILOT_DUPLICATE_COMMENTS'] = duplicateComments;
+                console.log(`Fingerprinted ${duplicateCheck.threads.length} existing Copilot thread(s) for duplicate detection.`);
+
+                // Properties identifying threads the task posts itself (consolidated batch review, structured findings)
+                const threadProperties = getCopilotThreadProperties({
+                    runId: tl.getVariable('Build.BuildId'),
+                    model,
+                    iterationId: iterationContext?.iteration.id
+                });
+
+                // Secret scan of the added lines. The findings are posted before the review and listed in the prompt.
+                let secretFindings: SecretFinding[] = [];
+                if (secretRules && iterationContext) {
+                    console.log('\nScanning the added lines for secrets...');
+                    secretFindings = await scanChangesForSecrets(connection, iterationContext, secretRules);
+                    console.log(`Secret scan: ${secretFindings.length} possible secret(s) found.`);
+                    if (secretFindings.length > 0) {
+                        await postOrRecordFindings(connection, pullRequestNumber, iterationContext.iteration.id, secretFindings.map(toSecretReviewFinding),
+                            workingDirectory, { ...threadProperties, [THREAD_SECRET_SCAN_PROPERTY]: 'true' }, duplicateCheck, dryRunLog);
+                    }
+                    reviewPromptSettings.secretFindings = secretFindings;
+                }
+
+                // Step 4: Run Copilot CLI for code review
+                console.log('\n[Step 4/4] Running Copilot code review...');
         
-        await runPowerShellScript(prChangesScript, [
-            `-Token "${azureDevOpsToken}"`,
-            `-AuthType "${azureDevOpsAuthType}"`,
-            `-CollectionUri "${resolvedCollectionUri}"`,
-            `-Project "${project}"`,
-            `-Repository "${repository}"`,
-            `-Id ${pullRequestId}`,
-            `-OutputFile "${iterationDetailsOutput}"`
-        ]);
-        console.log(`Iteration details saved to: ${iterationDetailsOutput}`);
-
-        // Read the iteration ID from the file written by Get-AzureDevOpsPRChanges.ps1
-        const iterationIdFile = path.join(workingDirectory, 'Iteration_Id.txt');
-        if (fs.existsSync(iterationIdFile)) {
-            const iterationId = fs.readFileSync(iterationIdFile, 'utf8').trim();
-            if (iterationId) {
-                process.env['ITERATION_ID'] = iterationId;
-                console.log(`Iteration ID set to: ${iterationId}`);
+                // Determine the prompt file to use
+                let promptFilePath: string = '';
+                let customPromptText: string | null = null;
+
+                // Helper to check if filePath inputs are actually set (filePath inputs return working dir when empty)
+                const isPromptFileSet = promptFile &&
+                    fs.existsSync(promptFile) &&
+                    fs.statSync(promptFile).isFile();
+                const isPromptFileRawSet = promptFileRaw &&
+                    fs.existsSync(promptFileRaw) &&
+                    fs.statSync(promptFileRaw).isFile();
+
+                // Validate that only one prompt input is provided
+                const activePromptInputs: string[] = [];
+                if (prompt) activePromptInputs.push('prompt');
+                if (isPromptFileSet) activePromptInputs.push('promptFile');
+                if (promptRaw) activePromptInputs.push('promptRaw');
+                if (isPromptFileRawSet) activePromptInputs.push('promptFileRaw');
+
+                if (activePromptInputs.length > 1) {
+                    return completeReview(statusTarget, tl.TaskResult.Failed,
+                        `Multiple prompt inputs are set (${activePromptInputs.join(', ')}). Only one prompt input should be provided. ` +
+                        'Please use only one of: prompt, promptFile, promptRaw, or promptFileRaw.');
+                }
+
+                if (promptRaw) {
+                    // Raw prompt: pass directly to CLI with no modification
+                    console.log('Using raw prompt from input.');
+                    promptFilePath = path.join(workingDirectory, '_copilot_prompt.txt');
+                    fs.writeFileSync(promptFilePath, promptRaw, 'utf8');
+                    console.log('\nRAW PROMPT:\n' + promptRaw + '\n\n');
+                } else if (isPromptFileRawSet) {
+                    // Raw prompt file: use file contents as-is with no modification
+                    console.log(`Using raw prompt from file: ${promptFileRaw}`);
+                    const fileContent = fs.readFileSync(promptFileRaw!, 'utf8');
+                    if (!fileContent.trim()) {
+                        return completeReview(statusTarget, tl.TaskResult.Failed, `Raw prompt file is empty: ${promptFileRaw}`);
+                    }
+                    promptFilePath = path.join(workingDirectory, '_copilot_prompt.txt');
+                    fs.writeFileSync(promptFilePath, fileContent, 'utf8');
+                    console.log('\nRAW PROMPT:\n' + fileContent + '\n\n');
+                } else if (prompt) {
+                    // Direct prompt input: merge with template
+                    console.log('Using custom prompt from input.');
+                    customPromptText = prompt;
+                } else if (isPromptFileSet) {
+                    // Read from prompt file: merge with template
+                    console.log(`Using custom prompt from file: ${promptFile}`);
+                    const fileContent = fs.readFileSync(promptFile!, 'utf8').trim();
+                    if (!fileContent) {
+                        return completeReview(statusTarget, tl.TaskResult.Failed, `Prompt file is empty: ${promptFile}`);
+                    }
+                    customPromptText = fileContent;
+                }
+
+                // Custom prompts are templates: resolve the includes once, then check that the template renders
+                if (customPromptText) {
+                    reviewPromptSettings.templateVariables = {
+                        pullRequestId: pullRequestNumber.toString(),
+                        prTitle: pullRequestContext.pullRequest.title ?? '',
+                        sourceBranch: (pullRequestContext.pullRequest.sourceRefName ?? '').replace(/^refs\/heads\//, ''),
+                        targetBranch: (pullRequestContext.pullRequest.targetRefName ?? '').replace(/^refs\/heads\//, ''),
+                        author: pullRequestContext.pullRequest.createdBy?.displayName ?? pullRequestContext.pullRequest.createdBy?.uniqueName ?? '',
+                        changedFiles: (iterationContext?.changes ?? []).map(change => change.item?.path).filter(Boolean).join('\n'),
+                        iterationId: iterationContext?.iteration.id.toString() ?? '',
+                        repository: connection.repository,
+                        project: connection.project,
+                        wholeDiff: reviewWholeDiffAtOnce ? 'true' : '',
+                        perFile: reviewWholeDiffAtOnce ? '' : 'true'
+                    };
+                    try {
+                        customPromptText = resolvePromptIncludes(customPromptText, workingDirectory);
+                        renderPromptText(customPromptText, reviewPromptSettings.templateVariables);
+                    } catch (err: unknown) {
+                        const errorMessage = err instanceof Error ? err.message : String(err);
+                        return completeReview(statusTarget, tl.TaskResult.Failed, `Invalid custom prompt: ${errorMessage}`);
+                    }
+                }
+
+                // Template prompts are rendered per batch in batched mode, so keep the template around
+                let templateContent: string | undefined;
+                if (customPromptText) {
+                    // Use custom prompt template with placeholder replacement
+                    templateContent = fs.readFileSync(path.join(scriptsDir, 'prompt-custom.txt'), 'utf8');
+                } else if (!promptRaw && !isPromptFileRawSet) {
+                    // Use default prompt template bundled with the task and append dynamic review behavior guidance
+                    templateContent = fs.readFileSync(path.join(scriptsDir, 'prompt.txt'), 'utf8');
+                }
+
+                let batches: ReviewBatch[] = [];
+                if (isBatchingEnabled(batchOptions)) {
+                    if (!templateContent) {
+                        tl.warning('Batched review requires a prompt template and is not available with promptRaw / promptFileRaw. Running a single review.');
+                    } else if (iterationContext) {
+                        batches = createReviewBatches(iterationContext.changes, workingDirectory, batchOptions);
+                        console.log(`Split ${iterationContext.changes.length} changed file(s) into ${batches.length} batch(es).`);
+                    }
+                }
+                const useBatches = batches.length > 1;
+
+                if (!useBatches && templateContent) {
+                    const mergedPrompt = renderPromptTemplate(templateContent, reviewPromptSettings, customPromptText ?? undefined);
+                    promptFilePath = path.join(workingDirectory, '_copilot_prompt.txt');
+                    fs.writeFileSync(promptFilePath, mergedPrompt, 'utf8');
+                    if (customPromptText) {
+                        console.log('\nCUSTOM PROMPT:\n' + mergedPrompt + '\n\n');
+                        console.log('Custom prompt merged with instruction template.');
+                    } else {
+                        console.log('Using default prompt with dynamic review behavior settings.');
+                    }
+                }
+
+                // Copy the comment scripts to the working directory so Copilot can find and use them for posting PR comments.
+                // In structured findings mode the task posts the comments itself, so only the thread update script is provided
+                // (unless conversation mode needs Add-CopilotComment.ps1 for replies).
+                // In dry-run mode the recording versions from scripts/dryrun are copied, and the raw API script is left out.
+                const commentScripts = structuredFindings && !conversationMode
+                    ? ['Update-CopilotComment.ps1']
+                    : ['Add-AzureDevOpsPRComment.ps1', 'Add-CopilotComment.ps1', 'Update-CopilotComment.ps1', 'Delete-CopilotComment.ps1'];
+                for (const scriptName of commentScripts) {
+                    const scriptDest = path.join(workingDirectory, scriptName);
+                    if (dryRun && scriptName === 'Add-AzureDevOpsPRComment.ps1') {
+                        removeFileIfExists(scriptDest);
+                        continue;
+                    }
+                    fs.copyFileSync(path.join(dryRun ? path.join(scriptsDir, 'dryrun') : scriptsDir, scriptName), scriptDest);
+                    console.log(`Copied ${dryRun ? 'dry-run ' : ''}${scriptName} to: ${scriptDest}`);
+                }
+                // Helper used by Add-CopilotComment.ps1 (both versions) for duplicate detection, and the REST helper with
+                // retries used by the scripts that call the API (not the dry-run versions)
+                const helperScripts = [
+                    ...(commentScripts.includes('Add-CopilotComment.ps1') ? ['Get-CopilotCommentFingerprint.ps1'] : []),
+                    ...(dryRun ? [] : ['Invoke-AzureDevOpsRestMethod.ps1'])
+                ];
+                for (const helperName of helperScripts) {
+                    const helperDest = path.join(workingDirectory, helperName);
+                    fs.copyFileSync(path.join(scriptsDir, helperName), helperDest);
+                    console.log(`Copied ${helperName} to: ${helperDest}`);
+                }
+
+                const findingsFilePath = path.join(workingDirectory, FINDINGS_FILE_NAME);
+                if (structuredFindings) {
+                    if (promptRaw || isPromptFileRawSet) {
+                        tl.warning(`Structured findings mode is enabled with a raw prompt. The raw prompt must instruct Copilot to write ${FINDINGS_FILE_NAME}.`);
+                    }
+                    removeFileIfExists(findingsFilePath);
+                }
+
+                // From here on a run summary is attached to the pipeline run, also when the review fails
+                runSummary = {
+                    pullRequestId: pullRequestNumber,
+                    pullRequestUrl: getPullRequestWebUrl(connection, pullRequestNumber),
+                    model,
+                    dryRun,
+                    startTime: reviewStartTime,
+                    timedOut: false,
+                    reviewedFiles: iterationContext?.changes.length ?? 0,
+                    threads: [],
+                    touchedFiles: []
+                };
+
+                const timeoutMs = timeoutMinutes * 60 * 1000;
+                let failedBatches: ReviewBatch[] = [];
+
+                // Conversation mode: answer developer replies on Copilot threads before the review, one Copilot run per thread
+                if (conversationMode) {
+                    const conversationThreads = getConversationThreads(pullRequestContext.threads).filter(thread => !staleThreadIds.has(thread.id));
+                    console.log(`\nConversation mode: ${conversationThreads.length} Copilot thread(s) with a developer reply to answer.`);
+                    const conversationTemplate = fs.readFileSync(path.join(scriptsDir, CONVERSATION_PROMPT_TEMPLATE), 'utf8');
+                    for (const thread of conversationThreads) {
+                        const threadPromptPath = path.join(workingDirectory, getConversationPromptFileName(thread.id));
+                        fs.writeFileSync(threadPromptPath, buildConversationPrompt(conversationTemplate, thread, workingDirectory), 'utf8');
+                        try {
+                            // A reply that was already posted is never repeated
+                            const beforeRetry = await createRetryCheck(connection, pullRequestNumber, duplicateCheck, copilotThreadsFile, dryRunLog, false);
+                            await engine.run({ promptFilePath: threadPromptPath, model, workingDirectory, timeoutMs, environment: copilotEnvironment, secrets, outputPrefix: `[thread #${thread.id}]`, beforeRetry });
+                        } catch (err: unknown) {
+                            const errorMessage = err instanceof Error ? err.message : String(err);
+                            tl.warning(`Could not answer the developer reply on thread #${thread.id}: ${errorMessage}`);
+                        }
+                    }
+                }
+
+                if (useBatches) {
+                    const batchResults = await runBatches(batches, batchConcurrency, timeoutMs, overallTimeoutMinutes * 60 * 1000, async (batch, batchTimeoutMs) => {
+                        const batchPromptPath = path.join(workingDirectory, `_copilot_prompt_${batch.index}.txt`);
+                        removeFileIfExists(path.join(workingDirectory, getBatchSummaryFileName(batch)));
+                        removeFileIfExists(path.join(workingDirectory, getBatchFindingsFileName(batch)));
+                        fs.writeFileSync(batchPromptPath, renderPromptTemplate(templateContent!, { ...reviewPromptSettings, batch }, customPromptText ?? undefined), 'utf8');
+                        const beforeRetry = await createRetryCheck(connection, pullRequestNumber, duplicateCheck, copilotThreadsFile, dryRunLog, true);
+                        try {
+                            await engine.run({
+                                promptFilePath: batchPromptPath,
+                                model,
+                                workingDirectory,
+                                timeoutMs: batchTimeoutMs,
+                                environment: copilotEnvironment,
+                                secrets,
+                                outputPrefix: `[batch ${batch.index}/${batch.count}]`,
+                                beforeRetry
+                            });
+                        } catch (err: unknown) {
+                            if (err instanceof ReviewTimeoutError) {
+                                runSummary!.timedOut = true;
+                            }
+                            throw err;
+                        }
+                    });
+                    runSummary.batches = batchResults;
+                    runSummary.timedOut = runSummary.timedOut || batchResults.some(result => result.skipped);
+
+                    failedBatches = batchResults.filter(result => !result.succeeded).map(result => result.batch);
+                    for (const result of batchResults.filter(result => !result.succeeded)) {
+                        tl.warning(`Batch ${result.batch.index}/${result.batch.count} did not complete (${result.error}). Files not reviewed: ${result.batch.files.join(', ')}`);
+                    }
+                    if (failedBatches.length === batches.length) {
+                        throw new Error('All review batches failed.');
+                    }
+
+                    if (reviewWholeDiffAtOnce) {
+                        console.log('\nMerging batch reviews into one consolidated comment...');
+                        const content = mergeWholeDiffReviews(batchResults.map(result => {
+                            const summaryFile = path.join(workingDirectory, getBatchSummaryFileName(result.batch));
+                            return {
+                                batch: result.batch,
+                                markdown: fs.existsSync(summaryFile) ? fs.readFileSync(summaryFile, 'utf8') : undefined,
+                                error: result.error
+                            };
+                        }));
+                        const status = getStatusLabel(content) === 'passed' && failedBatches.length === 0 ? 'closed' : 'active';
+                        if (dryRunLog) {
+                            recordDryRunAction(dryRunLog, { action: 'add', source: 'task', comment: content, status: status === 'closed' ? 'Closed' : 'Active' });
+                            console.log(`[Dry run] Recorded consolidated review comment (${status}).`);
+                        } else {
+                            const thread = await createThread(connection, pullRequestNumber, { content, status, properties: threadProperties });
+                            console.log(`Posted consolidated review thread #${thread.id} (${status}).`);
+                        }
+                    } else if (structuredFindings) {
+                        for (const result of batchResults.filter(result => result.succeeded)) {
+                            const batchFiles = new Set(result.batch.files);
+                            const batchChanges = (iterationContext?.changes ?? []).filter(change => batchFiles.has(change.item?.path ?? ''));
+                            console.log(`\nPosting structured findings of batch ${result.batch.index}/${result.batch.count}...`);
+                            await postStructuredFindings(connection, pullRequestNumber, iterationContext?.iteration.id,
+                                path.join(workingDirectory, getBatchFindingsFileName(result.batch)), batchChanges, changedLines, workingDirectory, threadProperties, duplicateCheck, dryRunLog);
+                        }
+                    }
+                } else {
+                    const beforeRetry = await createRetryCheck(connection, pullRequestNumber, duplicateCheck, copilotThreadsFile, dryRunLog, true);
+                    await engine.run({ promptFilePath, model, workingDirectory, timeoutMs, environment: copilotEnvironment, secrets, beforeRetry });
+
+                    if (structuredFindings) {
+                        console.log('\nPosting structured findings...');
+                        await postStructuredFindings(connection, pullRequestNumber, iterationContext?.iteration.id,
+                            findingsFilePath, iterationContext?.changes ?? [], changedLines, workingDirectory, threadProperties, duplicateCheck, dryRunLog);
+                    }
+                }
+
+                // PR description: a separate run writes PR_Description.md, which goes into the task's section of the description
+                if (describePullRequest) {
+                    const iterations = pullRequestContext.iterations;
+                    const latestIterationId = iterations[iterations.length - 1]?.id;
+                    console.log('\nDescribing the pull request...');
+                    if (isDescriptionCurrent(pullRequestContext.pullRequest.description, latestIterationId)) {
+                        console.log(`The description was already generated for iteration #${latestIterationId}.`);
+                    } else {
+                        const descriptionFile = path.join(workingDirectory, DESCRIPTION_FILE_NAME);
+                        const describePromptPath = path.join(workingDirectory, DESCRIPTION_PROMPT_FILE_NAME);
+                        removeFileIfExists(descriptionFile);
+                        fs.writeFileSync(describePromptPath, buildDescriptionPrompt(fs.readFileSync(path.join(scriptsDir, DESCRIPTION_PROMPT_TEMPLATE), 'utf8')), 'utf8');
+                        try {
+                            await engine.run({ promptFilePath: describePromptPath, model, workingDirectory, timeoutMs, environment: copilotEnvironment, secrets, outputPrefix: '[describe]' });
+                            await updateDescriptionSection(connection, pullRequestNumber, descriptionFile, pullRequestContext.workItemDetails, latestIterationId, dryRun);
+                        } catch (err: unknown) {
+                            const errorMessage = err instanceof Error ? err.message : String(err);
+                            tl.warning(`Could not describe the pull request: ${errorMessage}`);
+                        }
+                    }
+                }
+
+                // Files of failed batches were not reviewed, so the iteration is not recorded as reviewed
+                if (iterationContext && failedBatches.length === 0) {
+                    await recordReviewedIteration(connection, pullRequestNumber, iterationContext.iteration.id, dryRun);
+                }
+
+                // Report the threads created in this run (or recorded in dry-run mode) by status label. The result
+                // and the vote follow all open Copilot threads, including findings skipped as duplicates.
+                let reviewResult = { result: tl.TaskResult.Succeeded, message: 'Copilot code review completed.' };
+                let reviewCounts: ReviewStatusCounts | undefined;
+                try {
+                    let counts: ReviewStatusCounts;
+                    let openCounts: ReviewStatusCounts;
+                    if (dryRunLog) {
+                        const actions = readDryRunActions(dryRunLog);
+                        counts = countDryRunStatusLabels(actions);
+                        openCounts = countDryRunOpenThreads(pullRequestContext.threads, actions, failOnSecrets);
+                        writeDryRunReport(workingDirectory, actions);
+
+                        const previousFiles = new Map(pullRequestContext.threads.map(thread => [thread.id, thread.threadContext?.filePath]));
+                        runSummary.activity = getDryRunActivity(actions);
+                        runSummary.threads = getDryRunSummaryThreads(actions);
+                        runSummary.touchedFiles = actions.map(action => action.filePath ?? (action.threadId ? previousFiles.get(action.threadId) : undefined))
+                            .filter((filePath): filePath is string => !!filePath);
+                    } else {
+                        const outcome = await collectReviewOutcome(connection, pullRequestNumber, pullRequestContext.threads, failOnSecrets);
+                        counts = outcome.counts;
+                        openCounts = outcome.openCounts;
+
+                        runSummary.activity = outcome.activity;
+                        runSummary.threads = outcome.threads.map(toSummaryThread);
+                        runSummary.touchedFiles = [...outcome.threads, ...outcome.updatedThreads, ...outcome.resolvedThreads]
+                            .map(thread => thread.threadContext?.filePath)
+                            .filter((filePath): filePath is string => !!filePath);
+                    }
+                    runSummary.touchedFiles = [...new Set(runSummary.touchedFiles)].sort();
+                    console.log(`\nCopilot threads ${dryRunLog ? 'that would have been created' : 'created in this run'}: ${counts.total} ` +
+                        `(❌ Not Passed: ${counts.notPassed}, ❓ Questions: ${counts.questions}, ✅ Passed: ${counts.passed}, unlabeled: ${counts.unlabeled})`);
+                    console.log(`Open Copilot threads${dryRunLog ? ' there would be' : ''} after the review${failOnSecrets ? '' : ' (without secret scan threads)'}: ${openCounts.total} ` +
+                        `(❌ Not Passed: ${openCounts.notPassed}, ❓ Questions: ${openCounts.questions}, ✅ Passed: ${openCounts.passed}, unlabeled: ${openCounts.unlabeled})`);
+                    setOutputVariables(counts);
+                    reviewCounts = counts;
+                    reviewResult = evaluateReviewResult(openCounts, failOnSeverity);
+
+                    // Files of failed batches were not reviewed, so the outcome is incomplete and no vote is cast
+                    if (vote && failedBatches.length > 0) {
+                        tl.warning('Not voting: some review batches did not complete.');
+                    } else if (vote) {
+                        const castVote = await castReviewerVote(connection, pullRequestNumber, iterationContext?.iteration.id, openCounts, dryRun);
+                        if (castVote !== undefined) {
+                            runSummary.vote = `${VOTE_LABELS[castVote]}${dryRun ? ' (dry run, not cast)' : ''}`;
+                        }
+                    }
+                } catch (err: unknown) {
+                    const errorMessage = err instanceof Error ? err.message : String(err);
+                    tl.warning(`Could not evaluate the review findings: ${errorMessage}`);
+                }
+
+                if (failOnSecrets && secretFindings.length > 0) {
+                    reviewResult = {
+                        result: tl.TaskResult.Failed,
+                        message: `${reviewResult.message} The secret scan found ${secretFindings.length} possible secret(s).`
+                    };
+                }
+
+                if (failedBatches.length > 0 && reviewResult.result === tl.TaskResult.Succeeded) {
+                    reviewResult = {
+                        result: tl.TaskResult.SucceededWithIssues,
+                        message: `${reviewResult.message} ${failedBatches.length} of ${batches.length} review batch(es) did not complete.`
+                    };
+                }
+
+                runSummary.result = reviewResult.message;
+                publishRunSummary(runSummary, workingDirectory, summaryFileName);
+
+                console.log('\n' + '='.repeat(60));
+                console.log('Fastronome Copilot Code Review completed successfully!');
+                console.log('='.repeat(60));
+
+                return completeReview(statusTarget, reviewResult.result, reviewResult.message, reviewCounts);
+            } catch (err: unknown) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                if (runSummary) {
+                    runSummary.timedOut = runSummary.timedOut || err instanceof ReviewTimeoutError;
+                    runSummary.result = `Task failed: ${errorMessage}`;
+                    publishRunSummary(runSummary, workingDirectory, summaryFileName);
+                }
+                if (statusTarget) {
+                    const description = err instanceof ReviewTimeoutError ? 'Copilot code review timed out.' : `Copilot code review failed: ${errorMessage}`;
+                    await publishReviewStatus(statusTarget, 'error', description);
+                }
+                return { result: tl.TaskResult.Failed, message: `Task failed: ${errorMessage}` };
             }
-        }
+        };
 
-        // Step 4: Run Copilot CLI for code review
-        console.log('\n[Step 4/4] Running Copilot code review...');
-        
-        // Determine the prompt file to use
-        let promptFilePath: string = '';
-        let customPromptText: string | null = null;
-
-        // Helper to check if filePath inputs are actually set (filePath inputs return working dir when empty)
-        const isPromptFileSet = promptFile &&
-            fs.existsSync(promptFile) &&
-            fs.statSync(promptFile).isFile();
-        const isPromptFileRawSet = promptFileRaw &&
-            fs.existsSync(promptFileRaw) &&
-            fs.statSync(promptFileRaw).isFile();
-
-        // Validate that only one prompt input is provided
-        const activePromptInputs: string[] = [];
-        if (prompt) activePromptInputs.push('prompt');
-        if (isPromptFileSet) activePromptInputs.push('promptFile');
-        if (promptRaw) activePromptInputs.push('promptRaw');
-        if (isPromptFileRawSet) activePromptInputs.push('promptFileRaw');
-
-        if (activePromptInputs.length > 1) {
-            tl.setResult(tl.TaskResult.Failed,
-                `Multiple prompt inputs are set (${activePromptInputs.join(', ')}). Only one prompt input should be provided. ` +
-                'Please use only one of: prompt, promptFile, promptRaw, or promptFileRaw.');
+        if (!sweep) {
+            const reviewResult = await reviewPullRequest(parseInt(pullRequestId!, 10), RUN_SUMMARY_FILE_NAME, workingDirectory);
+            tl.setResult(reviewResult.result, reviewResult.message);
             return;
         }
 
-        if (promptRaw) {
-            // Raw prompt: pass directly to CLI with no modification
-            console.log('Using raw prompt from input.');
-            promptFilePath = path.join(workingDirectory, '_copilot_prompt.txt');
-            fs.writeFileSync(promptFilePath, promptRaw, 'utf8');
-            console.log('\nRAW PROMPT:\n' + promptRaw + '\n\n');
-        } else if (isPromptFileRawSet) {
-            // Raw prompt file: use file contents as-is with no modification
-            console.log(`Using raw prompt from file: ${promptFileRaw}`);
-            const fileContent = fs.readFileSync(promptFileRaw!, 'utf8');
-            if (!fileContent.trim()) {
-                tl.setResult(tl.TaskResult.Failed, `Raw prompt file is empty: ${promptFileRaw}`);
-                return;
+        // Sweep mode: review the matching active pull requests one after another, each at its own source commit
+        // in its own worktree
+        console.log('\nListing the active pull requests for the sweep...');
+        const candidates = await selectSweepPullRequests(connection, sweepFilters);
+        const selected = candidates.filter(candidate => !candidate.skipReason);
+        console.log(`Active pull requests: ${candidates.length}, selected for review: ${selected.length}`);
+        for (const candidate of candidates.filter(candidate => candidate.skipReason)) {
+            console.log(`  Skipping #${candidate.pullRequest.pullRequestId}: ${candidate.skipReason}`);
+        }
+
+        const worktreeRoot = tl.getVariable('Agent.TempDirectory') || os.tmpdir();
+        const sweepResults: SweepResult[] = [];
+        const totalCounts: ReviewStatusCounts = { passed: 0, questions: 0, notPassed: 0, unlabeled: 0, total: 0 };
+        for (const candidate of candidates) {
+            const pullRequest = candidate.pullRequest;
+            if (candidate.skipReason) {
+                sweepResults.push({ pullRequestId: pullRequest.pullRequestId, title: pullRequest.title, message: candidate.skipReason, durationMs: 0 });
+                continue;
             }
-            promptFilePath = path.join(workingDirectory, '_copilot_prompt.txt');
-            fs.writeFileSync(promptFilePath, fileContent, 'utf8');
-            console.log('\nRAW PROMPT:\n' + fileContent + '\n\n');
-        } else if (prompt) {
-            // Direct prompt input: merge with template
-            console.log('Using custom prompt from input.');
-            if (prompt.includes('"')) {
-                tl.setResult(tl.TaskResult.Failed, 'Custom prompts cannot include double quotes ("). Please remove any double quotes from your prompt input.');
-                return;
+
+            console.log('\n' + '='.repeat(60));
+            console.log(`Sweep: reviewing pull request #${pullRequest.pullRequestId} (${sweepResults.filter(result => result.result !== undefined).length + 1}/${selected.length}): ${pullRequest.title}`);
+            console.log('='.repeat(60));
+            const reviewStartTime = Date.now();
+            let reviewResult: PullRequestReviewResult;
+            let reviewDirectory: string | undefined;
+            let checkoutError = '';
+            try {
+                reviewDirectory = checkoutPullRequest(workingDirectory, pullRequest, worktreeRoot);
+            } catch (err: unknown) {
+                checkoutError = err instanceof Error ? err.message : String(err);
             }
-            customPromptText = prompt;
-        } else if (isPromptFileSet) {
-            // Read from prompt file: merge with template
-            console.log(`Using custom prompt from file: ${promptFile}`);
-            const fileContent = fs.readFileSync(promptFile!, 'utf8').trim();
-            if (!fileContent) {
-                tl.setResult(tl.TaskResult.Failed, `Prompt file is empty: ${promptFile}`);
-                return;
+            if (reviewDirectory) {
+                reviewResult = await reviewPullRequest(pullRequest.pullRequestId, getSweepRunSummaryFileName(pullRequest.pullRequestId), reviewDirectory);
+            } else {
+                reviewResult = { result: tl.TaskResult.Failed, message: `Could not check out the pull request: ${checkoutError}` };
             }
-            if (fileContent.includes('"')) {
-                tl.setResult(tl.TaskResult.Failed, `Custom prompts cannot include double quotes ("). Please remove any double quotes from the prompt file: ${promptFile}`);
-                return;
+            if (reviewResult.result === tl.TaskResult.Failed) {
+                tl.warning(`Review of pull request #${pullRequest.pullRequestId} failed: ${reviewResult.message}`);
             }
-            customPromptText = fileContent;
-        }
-
-        if (customPromptText) {
-            // Use custom prompt template with placeholder replacement
-            const customPromptTemplate = path.join(scriptsDir, 'prompt-custom.txt');
-            const templateContent = fs.readFileSync(customPromptTemplate, 'utf8');
-            const mergedPrompt = renderPromptTemplate(templateContent, reviewPromptSettings, customPromptText);
-            console.log('\nCUSTOM PROMPT:\n' + mergedPrompt + '\n\n');
-
-            // Write merged prompt to a temp file in the working directory
-            promptFilePath = path.join(workingDirectory, '_copilot_prompt.txt');
-            fs.writeFileSync(promptFilePath, mergedPrompt, 'utf8');
-            console.log('Custom prompt merged with instruction template.');
-        } else if (!promptRaw && !isPromptFileRawSet) {
-            // Use default prompt template bundled with the task and append dynamic review behavior guidance
-            const defaultPromptTemplate = path.join(scriptsDir, 'prompt.txt');
-            const templateContent = fs.readFileSync(defaultPromptTemplate, 'utf8');
-            const mergedPrompt = renderPromptTemplate(templateContent, reviewPromptSettings);
-            promptFilePath = path.join(workingDirectory, '_copilot_prompt.txt');
-            fs.writeFileSync(promptFilePath, mergedPrompt, 'utf8');
-            console.log('Using default prompt with dynamic review behavior settings.');
+            for (const key of Object.keys(totalCounts) as (keyof ReviewStatusCounts)[]) {
+                totalCounts[key] += reviewResult.counts?.[key] ?? 0;
+            }
+            sweepResults.push({
+                pullRequestId: pullRequest.pullRequestId,
+                title: pullRequest.title,
+                result: reviewResult.result,
+                message: reviewResult.message,
+                durationMs: Date.now() - reviewStartTime
+            });
         }
 
-        // Copy the Add-AzureDevOpsPRComment.ps1 and Add-AzureDevOpsPRComment.ps1 script to the working directory
-        // so Copilot can find and use them for posting PR comments
-        const addCommentScriptSource = path.join(scriptsDir, 'Add-AzureDevOpsPRComment.ps1');
-        const commentScriptSource = path.join(scriptsDir, 'Add-CopilotComment.ps1');
-        const updateCommentScriptSource = path.join(scriptsDir, 'Update-CopilotComment.ps1');
-        const deleteCommentScriptSource = path.join(scriptsDir, 'Delete-CopilotComment.ps1');
-        const addCommentScriptDest = path.join(workingDirectory, 'Add-AzureDevOpsPRComment.ps1');
-        const commentScriptDest = path.join(workingDirectory, 'Add-CopilotComment.ps1');
-        const updateCommentScriptDest = path.join(workingDirectory, 'Update-CopilotComment.ps1');
-        const deleteCommentScriptDest = path.join(workingDirectory, 'Delete-CopilotComment.ps1');
-        fs.copyFileSync(addCommentScriptSource, addCommentScriptDest);
-        console.log(`Copied Add-AzureDevOpsPRComment.ps1 to: ${addCommentScriptDest}`);
-        fs.copyFileSync(commentScriptSource, commentScriptDest);
-        console.log(`Copied Add-CopilotComment.ps1 to: ${commentScriptDest}`);
-        fs.copyFileSync(updateCommentScriptSource, updateCommentScriptDest);
-        console.log(`Copied Update-CopilotComment.ps1 to: ${updateCommentScriptDest}`);
-        fs.copyFileSync(deleteCommentScriptSource, deleteCommentScriptDest);
-        console.log(`Copied Delete-CopilotComment.ps1 to: ${deleteCommentScriptDest}`);
-        
-        // Run Copilot CLI with timeout
-        const timeoutMs = timeoutMinutes * 60 * 1000;
-        await runCopilotCli(promptFilePath, model, workingDirectory, timeoutMs);
-
-        console.log('\n' + '='.repeat(60));
-        console.log('Fastronome Copilot Code Review completed successfully!');
-        console.log('='.repeat(60));
-
-        tl.setResult(tl.TaskResult.Succeeded, 'Copilot code review completed.');
+        // The output variables hold the totals of all reviewed pull requests
+        setOutputVariables(totalCounts);
+        publishSweepSummary(sweepResults, workingDirectory, dryRun);
+        const sweepResult = getSweepTaskResult(sweepResults);
+        tl.setResult(sweepResult.result, sweepResult.message);
     } catch (err: unknown) {
         const errorMessage = err instanceof Error ? err.message : String(err);
         tl.setResult(tl.TaskResult.Failed, `Task failed: ${errorMessage}`);
     }
 }
 
-async function checkCopilotCli(): Promise<boolean> {
+/**
+ * Returns the result of a pull request review and, once the pending status was posted (publishStatus),
+ * posts the final pull request status.
+ */
+async function completeReview(
+    statusTarget: ReviewStatusTarget | undefined,
+    result: tl.TaskResult,
+    message: string,
+    counts?: ReviewStatusCounts
+): Promise<PullRequestReviewResult> {
+    if (statusTarget) {
+        await publishReviewStatus(statusTarget, getReviewStatusState(result), message);
+    }
+    return { result, message, counts };
+}
+
+/**
+ * Persist the reviewed iteration on the PR so the next run can review only newer changes.
+ * Failures are logged as warnings and never fail the task.
+ */
+async function recordReviewedIteration(connection: AzureDevOpsConnection, pullRequestId: number, iterationId: number, dryRun: boolean): Promise<void> {
+    if (dryRun) {
+        console.log(`[Dry run] Not recording iteration #${iterationId} as the last reviewed iteration.`);
+        return;
+    }
     try {
-        const result = child_process.spawnSync('copilot', ['--version'], {
-            encoding: 'utf8',
-            shell: true
-        });
-        return result.status === 0;
-    } catch {
-        return false;
+        await setLastReviewedIteration(connection, pullRequestId, iterationId);
+        console.log(`Recorded iteration #${iterationId} as the last reviewed iteration.`);
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        tl.warning(`Could not record the last reviewed iteration: ${errorMessage}`);
     }
 }
 
-async function installCopilotCli(): Promise<void> {
-    return new Promise((resolve, reject) => {
-        let command: string;
-        let args: string[];
+/**
+ * Load, validate and post a structured findings file, then keep it as an artifact.
+ * Findings outside the changed lines (changedLines) are dropped. In dry-run mode the findings are recorded in the dry-run log instead of being posted.
+ * Findings that duplicate an existing Copilot thread are skipped or replied to (duplicateComments).
+ */
+async function postStructuredFindings(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    iterationId: number | undefined,
+    findingsFilePath: string,
+    changes: GitPullRequestChange[],
+    changedLines: Map<string, LineRange[]> | undefined,
+    workingDirectory: string,
+    threadProperties: Record<string, string | number>,
+    duplicateCheck: DuplicateCheck,
+    dryRunLog?: string
+): Promise<void> {
+    const findings = loadFindings(findingsFilePath, changes, workingDirectory, changedLines);
+    await postOrRecordFindings(connection, pullRequestId, iterationId, findings, workingDirectory, threadProperties, duplicateCheck, dryRunLog);
+    if (fs.existsSync(findingsFilePath)) {
+        stageArtifactFile(findingsFilePath);
+    }
+}
 
-        if (isWindows()) {
-            console.log('Installing GitHub Copilot CLI via winget...');
-            command = 'winget';
-            args = ['install', 'GitHub.Copilot', '--silent', '--accept-package-agreements', '--accept-source-agreements'];
-        } else {
-            console.log('Installing GitHub Copilot CLI via official install script...');
-            // Use the official GitHub install script which downloads a pre-built binary
-            // The script installs to $HOME/.local/bin by default for non-root users
-            // Pass the full command as a single string when using shell: true
-            command = 'curl -fsSL https://gh.io/copilot-install | bash';
-            args = [];
-        }
-        
-        const installProcess = child_process.spawn(
-            command,
-            args,
-            {
-                shell: true,
-                stdio: 'inherit'
-            }
-        );
-
-        installProcess.on('close', (code: number | null) => {
-            if (code === 0) {
-                console.log('GitHub Copilot CLI installed successfully.');
-                // On Linux, add the install location to PATH for the current process
-                if (!isWindows()) {
-                    const homeDir = process.env['HOME'] || '';
-                    const localBin = path.join(homeDir, '.local', 'bin');
-                    process.env['PATH'] = `${localBin}:${process.env['PATH']}`;
-                    console.log(`Added ${localBin} to PATH.`);
-                }
-                resolve();
-            } else {
-                reject(new Error(`Failed to install GitHub Copilot CLI. Exit code: ${code}`));
+/**
+ * Posts findings as PR threads, or records them in the dry-run log in dry-run mode.
+ * Findings that duplicate an existing Copilot thread are skipped or replied to (duplicateComments).
+ */
+async function postOrRecordFindings(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    iterationId: number | undefined,
+    findings: Finding[],
+    workingDirectory: string,
+    threadProperties: Record<string, string | number>,
+    duplicateCheck: DuplicateCheck,
+    dryRunLog?: string
+): Promise<void> {
+    if (dryRunLog) {
+        for (const finding of findings) {
+            const duplicate = duplicateCheck.mode !== 'post'
+                ? findDuplicateThread(getFindingFingerprint(finding, workingDirectory), duplicateCheck.threads)
+                : undefined;
+            if (duplicate && duplicateCheck.mode === 'skip') {
+                console.log(`[Dry run] Skipped duplicate finding: matches Copilot thread #${duplicate.threadId}.`);
+                continue;
             }
+            recordDryRunAction(dryRunLog, {
+                action: 'add',
+                source: 'task',
+                threadId: duplicate?.threadId,
+                comment: formatFindingComment(finding),
+                status: getThreadStatus(finding) === 'closed' ? 'Closed' : 'Active',
+                filePath: finding.file ?? undefined,
+                startLine: finding.startLine ?? undefined,
+                endLine: finding.endLine ?? undefined,
+                secretScan: THREAD_SECRET_SCAN_PROPERTY in threadProperties ? true : undefined
+            });
+        }
+        console.log(`[Dry run] Recorded ${findings.length} finding(s) instead of posting them.`);
+    } else {
+        const postedFindings = await postFindings(connection, pullRequestId, iterationId, findings, {
+            properties: threadProperties,
+            duplicates: duplicateCheck
         });
-
-        installProcess.on('error', (err: Error) => {
-            reject(new Error(`Failed to install GitHub Copilot CLI: ${err.message}`));
-        });
-    });
+        console.log(`Posted ${postedFindings.length} of ${findings.length} finding(s).`);
+    }
 }
 
-async function runPowerShellScript(scriptPath: string, args: string[]): Promise<void> {
-    return new Promise((resolve, reject) => {
-        const command = `pwsh -NoProfile -File "${scriptPath}" ${args.join(' ')}`;
-        const envVars = { ...process.env };
-        
-        const psProcess = child_process.spawn(command, [], {
-            shell: true,
-            stdio: 'inherit',
-            env: envVars
-        });
+/**
+ * Returns the beforeRetry check of an engine run. A failed run may already have posted comments, which a
+ * retry would post again. The retry goes ahead when nothing was posted since the check was created, or when
+ * the new comments can be skipped as duplicates (duplicateComments=skip and dedupeAllowed): they are added
+ * to the duplicate check and Copilot_Threads.json first. Otherwise the run is not retried. Parallel batches
+ * see each other's comments, so in the reply and post modes a batch is only retried while nothing was posted.
+ */
+async function createRetryCheck(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    duplicateCheck: DuplicateCheck,
+    copilotThreadsFile: string,
+    dryRunLog: string | undefined,
+    dedupeAllowed: boolean
+): Promise<() => Promise<boolean>> {
+    // Dry runs record comments in the log instead of posting them; the log is only appended to, so its entries are keyed by position
+    const takeSnapshot = async (): Promise<Set<string>> => {
+        if (dryRunLog) {
+            return new Set(readDryRunActions(dryRunLog).map((_, index) => String(index)));
+        }
+        const threads = await getThreads(connection, pullRequestId);
+        return new Set(threads.flatMap(thread => (thread.comments ?? [])
+            .filter(comment => !comment.isDeleted && (comment.content ?? '').includes('[Generated by GitHub Copilot]'))
+            .map(comment => `${thread.id}/${comment.id}`)));
+    };
 
-        psProcess.on('close', (code) => {
-            if (code === 0) {
-                resolve();
-            } else {
-                reject(new Error(`PowerShell script failed with exit code: ${code}`));
-            }
-        });
+    let snapshot: Set<string>;
+    try {
+        snapshot = await takeSnapshot();
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        tl.warning(`Could not read the pull request threads; a failed review run is not retried: ${errorMessage}`);
+        return async () => false;
+    }
+    return async () => {
+        const current = await takeSnapshot();
+        const posted = [...current].filter(key => !snapshot.has(key)).length;
+        if (posted === 0) {
+            return true;
+        }
+        if (dryRunLog || !dedupeAllowed || duplicateCheck.mode !== 'skip') {
+            tl.warning(`The failed run already ${dryRunLog ? 'recorded' : 'posted'} ${posted} comment(s). It is not retried, so they are not posted twice.`);
+            return false;
+        }
 
-        psProcess.on('error', (err) => {
-            reject(new Error(`Failed to run PowerShell script: ${err.message}`));
-        });
-    });
+        duplicateCheck.threads = fingerprintCopilotThreads(await getThreads(connection, pullRequestId), duplicateCheck.workingDirectory);
+        writeCopilotThreadsFile(duplicateCheck.threads, copilotThreadsFile);
+        snapshot = current;
+        console.log(`The failed run already posted ${posted} comment(s); the retry skips them as duplicates.`);
+        return true;
+    };
 }
 
-async function runCopilotCli(promptFilePath: string, model: string | undefined, workingDirectory: string, timeoutMs: number): Promise<void> {
-    return new Promise((resolve, reject) => {
-        // Build PowerShell command that reads prompt file and passes content to copilot CLI
-        // This mirrors the original implementation: $prompt = Get-Content -Path "prompt.txt" -Raw; copilot -p $prompt ...
-        let copilotCmd = `copilot -p "$prompt" --allow-all-paths --allow-all-tools --deny-tool 'shell(git push)'`;
-        if (model) {
-            copilotCmd += ` --model ${model}`;
-        }
-        
-        const printPrompt = `Write-Host ========== START PROMPT ==========; Write-Host $prompt; Write-Host ========== END PROMPT ==========;`;
-        const envRefresh = `$env:Path = [System.Environment]::GetEnvironmentVariable("Path","Machine") + ";" + [System.Environment]::GetEnvironmentVariable("Path","User");`
-        const psCommand = `${envRefresh} $prompt = Get-Content -Path '${promptFilePath}' -Raw; ${printPrompt} ${copilotCmd}`;
-        console.log(`Running Powershell: ${psCommand}`);
-        
-        const envVars = { ...process.env };
-        
-        const copilotProcess = child_process.spawn(
-            'pwsh',
-            ['-NoProfile', '-Command', psCommand],
-            {
-                shell: false,
-                stdio: 'inherit',
-                cwd: workingDirectory,
-                env: envVars
-            }
-        );
-
-        // Set up timeout
-        const timeoutId = setTimeout(() => {
-            console.log(`\nTimeout reached (${timeoutMs / 60000} minutes). Terminating Copilot process...`);
-            copilotProcess.kill('SIGTERM');
-            reject(new Error(`Copilot review timed out after ${timeoutMs / 60000} minutes`));
-        }, timeoutMs);
-
-        copilotProcess.on('close', (code) => {
-            clearTimeout(timeoutId);
-            if (code === 0) {
-                resolve();
-            } else {
-                reject(new Error(`Copilot CLI exited with code: ${code}`));
-            }
-        });
+/**
+ * Write the dry-run report (markdown and JSON), summarize it in the log and keep it, together with the
+ * rendered prompts, as an artifact.
+ */
+function writeDryRunReport(workingDirectory: string, actions: DryRunAction[]): void {
+    const markdownReport = path.join(workingDirectory, DRY_RUN_REPORT_MARKDOWN_FILE);
+    const jsonReport = path.join(workingDirectory, DRY_RUN_REPORT_JSON_FILE);
+    const report = formatDryRunReport(actions);
+    fs.writeFileSync(markdownReport, report, 'utf8');
+    fs.writeFileSync(jsonReport, JSON.stringify({ actions }, null, 2), 'utf8');
+
+    console.log('\n' + '='.repeat(60));
+    console.log('Dry-Run Report');
+    console.log('='.repeat(60));
+    console.log(escapeLoggingCommands(report));
+    console.log('='.repeat(60));
+
+    const promptFiles = fs.readdirSync(workingDirectory)
+        .filter(fileName => /^_copilot_prompt(_\d+|_thread_\d+)?\.txt$/.test(fileName))
+        .map(fileName => path.join(workingDirectory, fileName));
+    for (const filePath of [markdownReport, jsonReport, ...promptFiles]) {
+        stageArtifactFile(filePath);
+    }
+}
 
-        copilotProcess.on('error', (err) => {
-            clearTimeout(timeoutId);
-            reject(new Error(`Failed to run Copilot CLI: ${err.message}`));
-        });
-    });
+function removeFileIfExists(filePath: string): void {
+    if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+    }
 }
 
 run();
@@ -0,0 +1,129 @@
+/**
+ * A small JSON Schema validator for the schemas in scripts/, so that a file is validated against the
+ * published schema instead of a hand-written copy of it. Supports the subset those schemas use: type,
+ * properties, required, additionalProperties (false), items, minLength, pattern, minimum, enum and local $ref.
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'boolean' | 'number' | 'integer' | 'null';
+
+export type JsonSchema = {
+    $ref?: string;
+    type?: JsonSchemaType | JsonSchemaType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    minLength?: number;
+    pattern?: string;
+    minimum?: number;
+    enum?: unknown[];
+    definitions?: Record<string, JsonSchema>;
+};
+
+const TYPE_LABELS: Record<JsonSchemaType, string> = {
+    object: 'a mapping',
+    array: 'a list',
+    string: 'a string',
+    boolean: 'true or false',
+    number: 'a number',
+    integer: 'an integer',
+    null: 'null'
+};
+
+function hasType(value: unknown, type: JsonSchemaType): boolean {
+    switch (type) {
+        case 'null':
+            return value === null;
+        case 'object':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return typeof value === 'number' && Number.isInteger(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+// Resolves a local reference such as '#/definitions/pathInstruction'
+function resolveReference(reference: string, root: JsonSchema): JsonSchema {
+    if (!reference.startsWith('#/')) {
+        throw new Error(`Unsupported schema reference: ${reference}`);
+    }
+
+    let target: unknown = root;
+    for (const segment of reference.slice(2).split('/')) {
+        target = (target as Record<string, unknown> | undefined)?.[segment];
+    }
+    if (typeof target !== 'object' || target === null) {
+        throw new Error(`Schema reference not found: ${reference}`);
+    }
+    return target as JsonSchema;
+}
+
+function validateValue(value: unknown, schema: JsonSchema, root: JsonSchema, documentName: string, location: string, errors: string[]): void {
+    if (schema.$ref) {
+        validateValue(value, resolveReference(schema.$ref, root), root, documentName, location, errors);
+        return;
+    }
+
+    const name = location || documentName;
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length > 0 && !types.some(type => hasType(value, type))) {
+        errors.push(`${name} must be ${types.map(type => TYPE_LABELS[type]).join(' or ')}`);
+        return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${name} must be one of ${schema.enum.join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(schema.minLength === 1 ? `${name} must not be empty` : `${name} must have at least ${schema.minLength} characters`);
+        } else if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+            errors.push(`${name} does not match the pattern ${schema.pattern}`);
+        }
+    }
+
+    if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${name} must be at least ${schema.minimum}`);
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => validateValue(item, schema.items!, root, documentName, `${location}[${index}]`, errors));
+    }
+
+    if (hasType(value, 'object')) {
+        const record = value as Record<string, unknown>;
+        const properties = schema.properties ?? {};
+        const prefix = location ? `${location}.` : '';
+
+        if (schema.additionalProperties === false) {
+            const unknownKeys = Object.keys(record).filter(key => !Object.hasOwn(properties, key));
+            if (unknownKeys.length > 0) {
+                errors.push(`${location ? `${location} has unknown` : 'unknown'} properties: ${unknownKeys.join(', ')}`);
+            }
+        }
+        for (const key of schema.required ?? []) {
+            if (record[key] === undefined) {
+                errors.push(`${prefix}${key} is required`);
+            }
+        }
+        for (const [key, propertySchema] of Object.entries(properties)) {
+            if (record[key] !== undefined) {
+                validateValue(record[key], propertySchema, root, documentName, `${prefix}${key}`, errors);
+            }
+        }
+    }
+}
+
+/**
+ * Validates a parsed document against the schema. Returns all errors, each naming the offending property
+ * path (e.g. 'pathInstructions[0].path') or documentName for the document itself; an empty list means the
+ * document is valid.
+ */
+export function validateJsonSchema(document: unknown, schema: JsonSchema, documentName = 'the document'): string[] {
+    const errors: string[] = [];
+    validateValue(document, schema, schema, documentName, '', errors);
+    return errors;
+}
@@ -0,0 +1,125 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import { GitPullRequestChange } from './azureDevOpsClient';
+
+/**
+ * Include/exclude glob filters applied to the changed files of an iteration before the review.
+ * Patterns are matched against repository paths without the leading slash (e.g. 'src/app.ts');
+ * patterns without a slash match the file name anywhere in the tree (e.g. '*.min.js').
+ */
+
+export const DEFAULT_EXCLUDE_PATTERNS = [
+    // Lockfiles
+    'package-lock.json',
+    'npm-shrinkwrap.json',
+    'yarn.lock',
+    'pnpm-lock.yaml',
+    'bun.lockb',
+    'packages.lock.json',
+    'composer.lock',
+    'Gemfile.lock',
+    'Cargo.lock',
+    'poetry.lock',
+    'Pipfile.lock',
+    'go.sum',
+    '*.lock',
+    // Minified and generated bundles
+    '*.min.js',
+    '*.min.css',
+    '*.map',
+    // Binaries, images, archives and fonts
+    '*.{png,jpg,jpeg,gif,bmp,ico,webp,tiff,psd}',
+    '*.{pdf,doc,docx,xls,xlsx,ppt,pptx}',
+    '*.{zip,gz,tgz,tar,7z,rar,jar,war,nupkg}',
+    '*.{dll,exe,so,dylib,a,lib,o,obj,pdb,class,pyc,wasm,bin}',
+    '*.{woff,woff2,ttf,otf,eot}',
+    '*.{mp3,mp4,wav,avi,mov}'
+];
+
+export type PathFilters = {
+    includePaths: string[];
+    excludePaths: string[];
+    useDefaultExcludes: boolean;
+};
+
+export type FilteredChanges = {
+    included: GitPullRequestChange[];
+    excluded: GitPullRequestChange[];
+};
+
+const MATCH_OPTIONS: tl.MatchOptions = {
+    dot: true,
+    matchBase: true,
+    nocase: true
+};
+
+export function normalizePattern(pattern: string): string {
+    return pattern.trim().replace(/\\/g, '/').replace(/^\/+/, '');
+}
+
+/**
+ * Splits a multi-line input into glob patterns. Commas separate patterns too, except inside braces
+ * so that patterns like '*.{png,jpg}' stay intact.
+ */
+export function parsePatternList(input: string | undefined): string[] {
+    if (!input) {
+        return [];
+    }
+
+    const patterns: string[] = [];
+    let current = '';
+    let braceDepth = 0;
+
+    for (const char of input) {
+        if (char === '{') {
+            braceDepth++;
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+        }
+
+        if (char === '\n' || char === '\r' || (char === ',' && braceDepth === 0)) {
+            patterns.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    patterns.push(current);
+
+    return patterns.map(normalizePattern).filter(Boolean);
+}
+
+export function hasPathFilters(filters: PathFilters): boolean {
+    return filters.useDefaultExcludes || filters.includePaths.length > 0 || filters.excludePaths.length > 0;
+}
+
+function toRelativePath(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/^\/+/, '');
+}
+
+export function matchesAny(filePath: string, patterns: string[]): boolean {
+    return patterns.length > 0 && tl.match([toRelativePath(filePath)], patterns, undefined, MATCH_OPTIONS).length > 0;
+}
+
+export function isPathIncluded(filePath: string, filters: PathFilters): boolean {
+    if (filters.includePaths.length > 0 && !matchesAny(filePath, filters.includePaths)) {
+        return false;
+    }
+
+    const excludePatterns = filters.useDefaultExcludes
+        ? [...DEFAULT_EXCLUDE_PATTERNS, ...filters.excludePaths]
+        : filters.excludePaths;
+    return !matchesAny(filePath, excludePatterns);
+}
+
+export function filterChanges(changes: GitPullRequestChange[], filters: PathFilters): FilteredChanges {
+    const result: FilteredChanges = { included: [], excluded: [] };
+    for (const change of changes) {
+        const filePath = change.item?.path;
+        if (!filePath || isPathIncluded(filePath, filters)) {
+            result.included.push(change);
+        } else {
+            result.excluded.push(change);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,158 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'fs';
+import { AzureDevOpsConnection, GitPullRequest, getPullRequest, updatePullRequestDescription } from './azureDevOpsClient';
+import { WorkItemDetails } from './workItems';
+
+/**
+ * Pull request description (describePullRequest input): a separate engine run writes a structured
+ * description of the changes to PR_Description.md, and the task puts it into a delimited section of the
+ * pull request description that belongs to the task. The section is replaced when a new iteration is
+ * described; the author's text before and after it is never changed.
+ */
+
+export const DESCRIPTION_PROMPT_TEMPLATE = 'prompt-describe.txt';
+
+export const DESCRIPTION_PROMPT_FILE_NAME = '_copilot_prompt_describe.txt';
+
+export const DESCRIPTION_FILE_NAME = 'PR_Description.md';
+
+// Azure DevOps rejects pull request descriptions longer than this
+const MAX_DESCRIPTION_LENGTH = 4000;
+
+// Below this, there is no room left for a useful generated section next to the author's text
+const MIN_GENERATED_LENGTH = 200;
+
+const SECTION_START_PATTERN = /<!-- copilot-description:start(?: iteration=(\d+))? -->/;
+const SECTION_END = '<!-- copilot-description:end -->';
+const TRUNCATED_NOTE = '\n\n_(Shortened to fit the pull request description limit.)_';
+
+type DescriptionSection = {
+    // The iteration the section was generated for; undefined when the marker has none
+    iterationId?: number;
+    start: number;
+    end: number;
+};
+
+/**
+ * The task's section of the description. Throws when the start marker has no end marker, because the
+ * end of the section (and the start of the author's text after it) is unknown then.
+ */
+function findDescriptionSection(description: string): DescriptionSection | undefined {
+    const start = SECTION_START_PATTERN.exec(description);
+    if (!start) {
+        return undefined;
+    }
+
+    const endIndex = description.indexOf(SECTION_END, start.index);
+    if (endIndex < 0) {
+        throw new Error('The Copilot section of the pull request description has no end marker. Remove the section or restore its end marker.');
+    }
+    return {
+        iterationId: start[1] ? parseInt(start[1], 10) : undefined,
+        start: start.index,
+        end: endIndex + SECTION_END.length
+    };
+}
+
+/**
+ * True when the description already has a section generated for the iteration, so there is nothing to
+ * refresh.
+ */
+export function isDescriptionCurrent(description: string | undefined, iterationId: number | undefined): boolean {
+    try {
+        const section = findDescriptionSection(description ?? '');
+        return section !== undefined && iterationId !== undefined && section.iterationId === iterationId;
+    } catch {
+        return false;
+    }
+}
+
+export function buildDescriptionPrompt(templateContent: string): string {
+    return `${templateContent.trim()}\n\n` +
+        `DESCRIPTION FILE: ${DESCRIPTION_FILE_NAME}\n`;
+}
+
+function formatLinkedWorkItems(workItems: WorkItemDetails[]): string {
+    if (workItems.length === 0) {
+        return '_No linked work items._';
+    }
+
+    return workItems.map(workItem => {
+        const details = [workItem.type, workItem.state].filter(Boolean).join(', ');
+        return `- #${workItem.id}${workItem.title ? ` ${workItem.title}` : ''}${details ? ` (${details})` : ''}`;
+    }).join('\n');
+}
+
+/**
+ * The generated text between the markers, followed by the linked work items. The generated text is
+ * shortened at a line break when the section would not fit in maxLength characters.
+ */
+export function formatDescriptionSection(generated: string, workItems: WorkItemDetails[], iterationId: number | undefined, maxLength: number): string {
+    const start = `<!-- copilot-description:start${iterationId !== undefined ? ` iteration=${iterationId}` : ''} -->`;
+    const header = `_Generated by GitHub Copilot${iterationId !== undefined ? ` for iteration #${iterationId}` : ''}. ` +
+        'This section is replaced when new changes are pushed; write your own notes outside of it._';
+    const footer = `### Linked work items\n${formatLinkedWorkItems(workItems)}`;
+    const build = (text: string) => [start, header, text, footer, SECTION_END].join('\n\n');
+
+    let text = generated.trim();
+    const available = maxLength - build('').length;
+    if (text.length > available) {
+        const limit = available - TRUNCATED_NOTE.length;
+        if (limit < MIN_GENERATED_LENGTH) {
+            throw new Error(`The pull request description leaves no room for the generated section (${MAX_DESCRIPTION_LENGTH} characters at most).`);
+        }
+        const cut = text.lastIndexOf('\n', limit);
+        text = text.substring(0, cut > 0 ? cut : limit).trimEnd() + TRUNCATED_NOTE;
+    }
+    return build(text);
+}
+
+/**
+ * Replaces the task's section in the description, or appends it after the author's text when there is none.
+ */
+export function mergeDescription(description: string | undefined, generated: string, workItems: WorkItemDetails[], iterationId: number | undefined): string {
+    const current = description ?? '';
+    const section = findDescriptionSection(current);
+    const before = section ? current.substring(0, section.start) : `${current.trimEnd()}${current.trim() ? '\n\n' : ''}`;
+    const after = section ? current.substring(section.end) : '';
+    const merged = formatDescriptionSection(generated, workItems, iterationId, MAX_DESCRIPTION_LENGTH - before.length - after.length);
+    return before + merged + after;
+}
+
+/**
+ * Reads the generated description and writes it into the task's section of the pull request description.
+ * The pull request is read again first, so edits the author made during the review are kept. In dry-run
+ * mode the description is only logged.
+ */
+export async function updateDescriptionSection(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    descriptionFile: string,
+    workItems: WorkItemDetails[],
+    iterationId: number | undefined,
+    dryRun: boolean
+): Promise<void> {
+    if (!fs.existsSync(descriptionFile)) {
+        tl.warning(`The review engine did not write ${DESCRIPTION_FILE_NAME}. The pull request description is unchanged.`);
+        return;
+    }
+    const generated = fs.readFileSync(descriptionFile, 'utf8');
+    if (!generated.trim()) {
+        tl.warning(`${DESCRIPTION_FILE_NAME} is empty. The pull request description is unchanged.`);
+        return;
+    }
+
+    const pullRequest: GitPullRequest = await getPullRequest(connection, pullRequestId);
+    const description = mergeDescription(pullRequest.description, generated, workItems, iterationId);
+    if (description === pullRequest.description) {
+        console.log('The pull request description is already up to date.');
+        return;
+    }
+
+    if (dryRun) {
+        console.log(`[Dry run] Would update the pull request description to:\n${description}`);
+        return;
+    }
+    await updatePullRequestDescription(connection, pullRequestId, description);
+    console.log(`Updated the Copilot section of the pull request description${iterationId !== undefined ? ` (iteration #${iterationId})` : ''}.`);
+}
@@ -0,0 +1,462 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    AzureDevOpsConnection,
+    GitCommitRef,
+    GitPullRequest,
+    GitPullRequestChange,
+    GitPullRequestIteration,
+    PullRequestThread,
+    WorkItemRef,
+    getIterationChanges,
+    getIterations,
+    getPullRequest,
+    getPullRequestCommits,
+    getPullRequestWebUrl,
+    getPullRequestWorkItems,
+    getThreads
+} from './azureDevOpsClient';
+import { PathFilters, filterChanges, hasPathFilters } from './pathFilters';
+import { hasCopilotThreadProperty } from './reviewState';
+import { DEFAULT_WORK_ITEM_MAX_CHARS, WorkItemDetails, fetchWorkItemDetails } from './workItems';
+
+/**
+ * Builds the PR_Details.txt / Iteration_Details.txt artifacts consumed by the Copilot prompt.
+ * The text layout follows Get-AzureDevOpsPR.ps1 and Get-AzureDevOpsPRChanges.ps1 so existing
+ * prompts keep working unchanged.
+ */
+
+const SEPARATOR = '='.repeat(80);
+
+export type PullRequestContext = {
+    pullRequest: GitPullRequest;
+    workItems: WorkItemRef[];
+    workItemDetails: WorkItemDetails[];
+    iterations: GitPullRequestIteration[];
+    threads: PullRequestThread[];
+};
+
+export type PullRequestDetailsOptions = {
+    workItemMaxChars?: number;
+};
+
+export type IterationContext = {
+    iteration: GitPullRequestIteration;
+    compareToIteration?: GitPullRequestIteration;
+    commits: GitCommitRef[];
+    changes: GitPullRequestChange[];
+    excludedChanges: GitPullRequestChange[];
+};
+
+export type IterationDetailsOptions = {
+    compareToIterationId?: number;
+    pathFilters?: PathFilters;
+};
+
+function pad(value: number): string {
+    return value.toString().padStart(2, '0');
+}
+
+function formatDateForDisplay(value: string | undefined, includeSeconds = false): string {
+    if (!value) {
+        return 'N/A';
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        return value;
+    }
+
+    const formatted = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+    return includeSeconds ? `${formatted}:${pad(date.getSeconds())}` : formatted;
+}
+
+function getBranchShortName(refName: string | undefined): string {
+    return refName ? refName.replace(/^refs\/heads\//, '') : 'N/A';
+}
+
+function getVoteDisplay(vote: number | undefined): string {
+    switch (vote) {
+        case 10: return 'Approved';
+        case 5: return 'Approved with suggestions';
+        case 0: return 'No vote';
+        case -5: return 'Waiting for author';
+        case -10: return 'Rejected';
+        default: return 'Unknown';
+    }
+}
+
+function getThreadStatusDisplay(status: string | undefined): string {
+    switch (status) {
+        case 'active': return 'Active';
+        case 'fixed': return 'Resolved';
+        case 'closed': return 'Closed';
+        case 'wontFix': return "Won't Fix";
+        case 'pending': return 'Pending';
+        case 'byDesign': return 'By Design';
+        default: return status ?? 'Unknown';
+    }
+}
+
+function getChangeTypeDisplay(changeType: string): string {
+    switch (changeType) {
+        case 'add': return 'Added';
+        case 'edit': return 'Modified';
+        case 'delete': return 'Deleted';
+        case 'rename': return 'Renamed';
+        case 'copy': return 'Copied';
+        default: return changeType;
+    }
+}
+
+function getThreadStartLine(thread: PullRequestThread): number | null {
+    const context = thread.threadContext;
+    if (!context || !context.filePath) {
+        return null;
+    }
+    return context.rightFileStart?.line ?? context.leftFileStart?.line ?? null;
+}
+
+/**
+ * Top-level comment threads, excluding system-generated threads (votes, pushes, etc.).
+ */
+export function getCommentThreads(threads: PullRequestThread[]): PullRequestThread[] {
+    return threads.filter(thread =>
+        thread.comments &&
+        thread.comments.length > 0 &&
+        thread.comments[0].commentType !== 'system'
+    );
+}
+
+/**
+ * Threads created by previous Copilot reviews.
+ * Matches by the Fastronome.CopilotReview thread property. Threads created before the property was
+ * introduced are recognized by the [Generated by GitHub Copilot] tag in their first comment.
+ */
+export function getCopilotThreads(threads: PullRequestThread[]): PullRequestThread[] {
+    return getCommentThreads(threads).filter(thread =>
+        hasCopilotThreadProperty(thread) ||
+        (thread.comments[0].content ?? '').includes('[Generated by GitHub Copilot]')
+    );
+}
+
+export function formatPullRequestDetails(context: PullRequestContext, connection: AzureDevOpsConnection): string {
+    const { pullRequest: pr, workItems, workItemDetails, iterations, threads } = context;
+    const lines: string[] = [];
+
+    lines.push('', SEPARATOR, 'PULL REQUEST DETAILS', SEPARATOR);
+
+    lines.push('', '[Basic Information]');
+    lines.push(`  ID:              #${pr.pullRequestId}`);
+    lines.push(`  Title:           ${pr.title}`);
+    lines.push(`  Status:          ${(pr.status ?? '').toUpperCase()}`);
+    lines.push(`  Repository:      ${pr.repository?.name ?? connection.repository}`);
+    lines.push(`  Source Branch:   ${getBranchShortName(pr.sourceRefName)}`);
+    lines.push(`  Target Branch:   ${getBranchShortName(pr.targetRefName)}`);
+    lines.push(`  Is Draft:        ${pr.isDraft ? 'True' : 'False'}`);
+    lines.push(`  Merge Status:    ${pr.mergeStatus ?? ''}`);
+
+    lines.push('', '[People]');
+    lines.push(`  Created By:      ${pr.createdBy?.displayName ?? ''} <${pr.createdBy?.uniqueName ?? ''}>`);
+    lines.push(`  Created Date:    ${formatDateForDisplay(pr.creationDate)}`);
+    if (pr.closedBy) {
+        lines.push(`  Closed By:       ${pr.closedBy.displayName ?? ''}`);
+        lines.push(`  Closed Date:     ${formatDateForDisplay(pr.closedDate)}`);
+    }
+
+    lines.push('', '[Reviewers]');
+    if (pr.reviewers && pr.reviewers.length > 0) {
+        for (const reviewer of pr.reviewers) {
+            const required = reviewer.isRequired ? ' (Required)' : '';
+            lines.push(`  - ${reviewer.displayName ?? ''}${required} : ${getVoteDisplay(reviewer.vote)}`);
+        }
+    } else {
+        lines.push('  No reviewers assigned');
+    }
+
+    lines.push('', '[Description]');
+    if (!pr.description) {
+        lines.push('  (No description provided)');
+    } else {
+        lines.push(`  ${pr.description.replace(/\r\n/g, '\n').replace(/\n/g, '\n  ')}`);
+    }
+
+    lines.push('', '[Iterations/Updates]');
+    if (iterations.length > 0) {
+        lines.push(`  Total iterations: ${iterations.length}`);
+        lines.push(`  Last updated:     ${formatDateForDisplay(iterations[iterations.length - 1].updatedDate)}`);
+    }
+
+    lines.push('', '[Comments/Threads]');
+    const commentThreads = getCommentThreads(threads);
+    if (threads.length > 0) {
+        const activeThreads = commentThreads.filter(thread => thread.status === 'active');
+        const resolvedThreads = commentThreads.filter(thread => thread.status === 'fixed' || thread.status === 'closed');
+        lines.push(`  Active threads:   ${activeThreads.length}`);
+        lines.push(`  Resolved threads: ${resolvedThreads.length}`);
+
+        if (commentThreads.length > 0) {
+            lines.push('', '  --- Top-Level Comments ---');
+
+            for (const thread of commentThreads) {
+                const firstComment = thread.comments[0];
+                lines.push('');
+                lines.push(`  Thread #${thread.id} [${getThreadStatusDisplay(thread.status)}]`);
+
+                if (thread.threadContext?.filePath) {
+                    const startLine = getThreadStartLine(thread);
+                    const lineInfo = startLine ? ` (Line ${startLine})` : '';
+                    lines.push(`  File: ${thread.threadContext.filePath}${lineInfo}`);
+                }
+
+                lines.push(`  Author: ${firstComment.author?.displayName ?? ''} | ${formatDateForDisplay(firstComment.publishedDate)}`);
+
+                if (firstComment.content) {
+                    const commentLines = firstComment.content.split('\n');
+                    for (const line of commentLines.slice(0, 30)) {
+                        const trimmedLine = line.trim();
+                        if (trimmedLine) {
+                            lines.push(`    ${trimmedLine}`);
+                        }
+                    }
+                    if (commentLines.length > 30) {
+                        lines.push(`    ... (${commentLines.length - 30} more lines)`);
+                    }
+                }
+
+                const replyCount = thread.comments.length - 1;
+                if (replyCount > 0) {
+                    lines.push(`    [${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}]`);
+                }
+            }
+        }
+    } else {
+        lines.push('  No comments');
+    }
+
+    lines.push('', '[Linked Work Items]');
+    if (workItems.length > 0) {
+        for (const workItem of workItems) {
+            lines.push(`  - #${workItem.id}: ${workItem.url}`);
+        }
+    } else {
+        lines.push('  No linked work items');
+    }
+
+    // What the linked stories and bugs ask for, so the review can check the change against it
+    if (workItemDetails.length > 0) {
+        lines.push('', '[Work Item Details]');
+        for (const workItem of workItemDetails) {
+            const state = workItem.state ? ` [${workItem.state}]` : '';
+            lines.push('', `  #${workItem.id} ${workItem.type ?? 'Work Item'}: ${workItem.title ?? ''}${state}`);
+            for (const section of workItem.sections) {
+                lines.push(`    ${section.label}:`);
+                lines.push(...section.text.split('\n').map(line => line ? `      ${line}` : ''));
+            }
+            if (workItem.sections.length === 0) {
+                lines.push('    (No description, acceptance criteria or repro steps)');
+            }
+            if (workItem.truncated) {
+                lines.push('    (Trimmed to the work item size limit)');
+            }
+        }
+    }
+
+    lines.push('', '[Links]');
+    lines.push(`  Web URL: ${getPullRequestWebUrl(connection, pr.pullRequestId)}`);
+    lines.push('', SEPARATOR);
+
+    // Structured JSON for Copilot-created comment threads.
+    // This section enables Copilot to identify and resolve its previous comments.
+    const copilotThreads = getCopilotThreads(threads);
+    if (copilotThreads.length > 0) {
+        const jsonThreads = copilotThreads.map(thread => ({
+            threadId: thread.id,
+            status: thread.status,
+            filePath: thread.threadContext?.filePath ?? null,
+            startLine: getThreadStartLine(thread),
+            content: thread.comments[0].content,
+            replies: thread.comments
+                .slice(1)
+                .filter(comment => comment.commentType !== 'system')
+                .map(comment => ({
+                    author: comment.author?.displayName,
+                    content: comment.content,
+                    publishedDate: comment.publishedDate
+                }))
+        }));
+
+        lines.push('', '=== COPILOT COMMENT THREADS (JSON) ===');
+        lines.push(JSON.stringify(jsonThreads));
+        lines.push('=== END COPILOT COMMENT THREADS ===');
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+export function formatIterationDetails(context: IterationContext, connection: AzureDevOpsConnection, pullRequestId: number): string {
+    const { iteration, compareToIteration, commits, changes, excludedChanges } = context;
+    const lines: string[] = [];
+
+    lines.push('', SEPARATOR, `PULL REQUEST CHANGES - ITERATION #${iteration.id}`, SEPARATOR);
+
+    lines.push('', '[Iteration Details]');
+    lines.push(`  Iteration ID:     #${iteration.id}`);
+    lines.push(`  Created:          ${formatDateForDisplay(iteration.createdDate, true)}`);
+    lines.push(`  Updated:          ${formatDateForDisplay(iteration.updatedDate, true)}`);
+    if (iteration.sourceRefCommit) {
+        lines.push(`  Source Commit:    ${iteration.sourceRefCommit.commitId.substring(0, 8)}`);
+    }
+    if (iteration.targetRefCommit) {
+        lines.push(`  Target Commit:    ${iteration.targetRefCommit.commitId.substring(0, 8)}`);
+    }
+    if (compareToIteration) {
+        lines.push(`  Compared To:      Iteration #${compareToIteration.id} (last reviewed iteration)`);
+        if (compareToIteration.sourceRefCommit) {
+            lines.push(`  Base Commit:      ${compareToIteration.sourceRefCommit.commitId.substring(0, 8)}`);
+        }
+    }
+
+    lines.push('', '[Commits in this PR]');
+    if (commits.length > 0) {
+        lines.push(`  Total commits: ${commits.length}`, '');
+        for (const commit of commits) {
+            let message = (commit.comment ?? '').split('\n')[0];
+            if (message.length > 60) {
+                message = message.substring(0, 57) + '...';
+            }
+            lines.push(`  ${commit.commitId.substring(0, 8)} - ${message}`);
+            lines.push(`           Author: ${commit.author?.name ?? ''} | ${formatDateForDisplay(commit.author?.date, true)}`);
+        }
+    } else {
+        lines.push('  No commits found.');
+    }
+
+    lines.push('', '[Changed Files]');
+    if (changes.length > 0) {
+        const addedCount = changes.filter(change => change.changeType === 'add').length;
+        const modifiedCount = changes.filter(change => change.changeType === 'edit').length;
+        const deletedCount = changes.filter(change => change.changeType === 'delete').length;
+        const otherCount = changes.length - addedCount - modifiedCount - deletedCount;
+
+        lines.push(`  Total files changed: ${changes.length}`);
+        let summaryLine = `  +${addedCount} added | ~${modifiedCount} modified | -${deletedCount} deleted`;
+        if (otherCount > 0) {
+            summaryLine += ` | ${otherCount} other`;
+        }
+        lines.push(summaryLine, '');
+
+        for (const change of changes) {
+            lines.push(`  [${getChangeTypeDisplay(change.changeType)}] ${change.item?.path ?? ''}`);
+            if (change.changeType === 'rename' && change.originalPath) {
+                lines.push(`         (from: ${change.originalPath})`);
+            }
+        }
+    } else {
+        lines.push(compareToIteration
+            ? `  No file changes found since iteration #${compareToIteration.id}.`
+            : '  No file changes found in this iteration.');
+    }
+
+    if (excludedChanges.length > 0) {
+        lines.push('', '[Excluded Files (out of scope for this review)]');
+        lines.push(`  Total files excluded by path filters: ${excludedChanges.length}`, '');
+        for (const change of excludedChanges) {
+            lines.push(`  [${getChangeTypeDisplay(change.changeType)}] ${change.item?.path ?? ''}`);
+        }
+    }
+
+    lines.push('', SEPARATOR);
+    lines.push('', `View PR: ${getPullRequestWebUrl(connection, pullRequestId)}`);
+
+    return lines.join('\n') + '\n';
+}
+
+function writeOutputFile(outputFile: string, content: string): void {
+    const outputDir = path.dirname(outputFile);
+    if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+    }
+    fs.writeFileSync(outputFile, content, 'utf8');
+}
+
+/**
+ * Fetches the pull request, its work items (with their details), iterations and threads and writes PR_Details.txt.
+ */
+export async function writePullRequestDetails(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    outputFile: string,
+    options: PullRequestDetailsOptions = {}
+): Promise<PullRequestContext> {
+    console.log(`Retrieving details for Pull Request #${pullRequestId}...`);
+    const pullRequest = await getPullRequest(connection, pullRequestId);
+    const [workItems, iterations, threads] = await Promise.all([
+        getPullRequestWorkItems(connection, pullRequestId),
+        getIterations(connection, pullRequestId),
+        getThreads(connection, pullRequestId)
+    ]);
+
+    const workItemDetails = await fetchWorkItemDetails(connection, workItems, options.workItemMaxChars ?? DEFAULT_WORK_ITEM_MAX_CHARS);
+
+    const context: PullRequestContext = { pullRequest, workItems, workItemDetails, iterations, threads };
+    writeOutputFile(outputFile, formatPullRequestDetails(context, connection));
+    return context;
+}
+
+/**
+ * Rewrites PR_Details.txt after the task changed threads itself (e.g. closed stale threads), so the
+ * prompt shows Copilot the current thread statuses.
+ */
+export function rewritePullRequestDetails(context: PullRequestContext, connection: AzureDevOpsConnection, outputFile: string): void {
+    writeOutputFile(outputFile, formatPullRequestDetails(context, connection));
+}
+
+/**
+ * Fetches the commits and changed files of the latest iteration and writes Iteration_Details.txt,
+ * plus Iteration_Id.txt next to it. Returns undefined when the pull request has no iterations.
+ * When `compareToIterationId` is provided, only the changes made since that iteration are listed.
+ * Files rejected by `pathFilters` are moved to a separate excluded section.
+ */
+export async function writeIterationDetails(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    iterations: GitPullRequestIteration[],
+    outputFile: string,
+    options: IterationDetailsOptions = {}
+): Promise<IterationContext | undefined> {
+    const { compareToIterationId, pathFilters } = options;
+
+    if (iterations.length === 0) {
+        tl.warning('No iterations found for this pull request.');
+        return undefined;
+    }
+
+    const iteration = iterations[iterations.length - 1];
+    console.log(`Found ${iterations.length} iteration(s). Using latest: Iteration #${iteration.id}`);
+
+    const compareToIteration = compareToIterationId !== undefined
+        ? iterations.find(candidate => candidate.id === compareToIterationId)
+        : undefined;
+    if (compareToIteration) {
+        console.log(`Comparing against last reviewed iteration #${compareToIteration.id}.`);
+    }
+
+    const [commits, allChanges] = await Promise.all([
+        getPullRequestCommits(connection, pullRequestId),
+        getIterationChanges(connection, pullRequestId, iteration.id, compareToIteration?.id)
+    ]);
+
+    const { included: changes, excluded: excludedChanges } = pathFilters && hasPathFilters(pathFilters)
+        ? filterChanges(allChanges, pathFilters)
+        : { included: allChanges, excluded: [] };
+    if (excludedChanges.length > 0) {
+        console.log(`Path filters excluded ${excludedChanges.length} of ${allChanges.length} changed file(s) from the review.`);
+    }
+
+    const context: IterationContext = { iteration, compareToIteration, commits, changes, excludedChanges };
+    writeOutputFile(outputFile, formatIterationDetails(context, connection, pullRequestId));
+    writeOutputFile(path.join(path.dirname(outputFile), 'Iteration_Id.txt'), iteration.id.toString());
+    return context;
+}
@@ -0,0 +1,405 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'fs';
+import * as child_process from 'child_process';
+import { stageArtifactFile } from './artifacts';
+import { AzureDevOpsConnection, GitPullRequestChange, getFileContent } from './azureDevOpsClient';
+import { IterationContext } from './prDetails';
+
+/**
+ * Pre-computed diff context (PR_Diff.txt): unified diffs of the changed files between the base and the
+ * target commit of the review, so Copilot does not have to work them out with git commands. The diffs come
+ * from the local clone, or from the Azure DevOps item content API when a commit is missing there (shallow
+ * clones). Each diff and the file as a whole are limited to a size budget; cut and left-out diffs are listed.
+ * The line ranges of the hunks are also used to check that structured findings point at changed code.
+ */
+
+export const DIFF_FILE_NAME = 'PR_Diff.txt';
+
+export const DEFAULT_DIFF_MAX_FILE_KB = 64;
+
+export const DEFAULT_DIFF_MAX_TOTAL_KB = 512;
+
+const CONTEXT_LINES = 3;
+
+// Larger differences are shown as a full replacement instead of a minimal diff
+const MAX_EDIT_DISTANCE = 2000;
+
+export type DiffBudget = {
+    maxFileBytes: number;
+    maxTotalBytes: number;
+};
+
+export type DiffContext = {
+    filePath: string;
+    source: 'git' | 'api';
+    files: number;
+    // Files whose diff was cut at the per-file budget
+    truncatedFiles: string[];
+    // Files left out because the total budget was used up, or whose diff could not be computed
+    omittedFiles: string[];
+};
+
+// Lines of the new version of a file, 1-based and inclusive
+export type LineRange = {
+    startLine: number;
+    endLine: number;
+};
+
+type DiffLine = {
+    type: ' ' | '-' | '+';
+    text: string;
+};
+
+function splitLines(content: string): string[] {
+    if (content === '') {
+        return [];
+    }
+    const lines = content.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines;
+}
+
+/**
+ * Minimal line edit script (Myers). Common leading and trailing lines are matched first; when the rest
+ * needs more than MAX_EDIT_DISTANCE edits, it is shown as removed and re-added.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    const middle = diffMiddle(a, b) ?? [
+        ...a.map((text): DiffLine => ({ type: '-', text })),
+        ...b.map((text): DiffLine => ({ type: '+', text }))
+    ];
+
+    return [
+        ...oldLines.slice(0, prefix).map((text): DiffLine => ({ type: ' ', text })),
+        ...middle,
+        ...oldLines.slice(oldLines.length - suffix).map((text): DiffLine => ({ type: ' ', text }))
+    ];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] | undefined {
+    const n = a.length;
+    const m = b.length;
+    const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = maxD + 1;
+    const v = new Int32Array(2 * maxD + 3);
+    // trace[d] holds v for k in [-d-1, d+1] before step d
+    const trace: Int32Array[] = [];
+
+    let found = false;
+    for (let d = 0; d <= maxD && !found; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+    if (!found) {
+        return undefined;
+    }
+
+    const lines: DiffLine[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const previous = (k: number): number => trace[d][k + d + 1];
+        const k = x - y;
+        const previousK = k === -d || (k !== d && previous(k - 1) < previous(k + 1)) ? k + 1 : k - 1;
+        const previousX = previous(previousK);
+        const previousY = previousX - previousK;
+        while (x > previousX && y > previousY) {
+            lines.push({ type: ' ', text: a[--x] });
+            y--;
+        }
+        if (d > 0) {
+            lines.push(x === previousX ? { type: '+', text: b[--y] } : { type: '-', text: a[--x] });
+        }
+    }
+    return lines.reverse();
+}
+
+/**
+ * Unified diff (git diff format without the index line) of two versions of a file. Empty when the
+ * contents are equal.
+ */
+export function formatUnifiedDiff(oldPath: string | undefined, newPath: string | undefined, oldContent: string, newContent: string): string {
+    const lines = diffLines(splitLines(oldContent), splitLines(newContent));
+    const changed = lines.map((line, index) => line.type !== ' ' ? index : -1).filter(index => index >= 0);
+    if (changed.length === 0) {
+        return '';
+    }
+
+    const header = [
+        `diff --git a${oldPath ?? newPath} b${newPath ?? oldPath}`,
+        `--- ${oldPath ? `a${oldPath}` : '/dev/null'}`,
+        `+++ ${newPath ? `b${newPath}` : '/dev/null'}`
+    ];
+
+    // Group changes whose context overlaps into one hunk
+    const hunks: { start: number; end: number }[] = [];
+    for (const index of changed) {
+        const last = hunks[hunks.length - 1];
+        if (last && index - last.end <= 2 * CONTEXT_LINES + 1) {
+            last.end = index;
+        } else {
+            hunks.push({ start: index, end: index });
+        }
+    }
+
+    // Line numbers before each entry of the edit script
+    const oldLineAt: number[] = [];
+    const newLineAt: number[] = [];
+    let oldLine = 1;
+    let newLine = 1;
+    for (const line of lines) {
+        oldLineAt.push(oldLine);
+        newLineAt.push(newLine);
+        oldLine += line.type !== '+' ? 1 : 0;
+        newLine += line.type !== '-' ? 1 : 0;
+    }
+
+    const body: string[] = [];
+    for (const hunk of hunks) {
+        const start = Math.max(0, hunk.start - CONTEXT_LINES);
+        const end = Math.min(lines.length - 1, hunk.end + CONTEXT_LINES);
+        const hunkLines = lines.slice(start, end + 1);
+        const oldCount = hunkLines.filter(line => line.type !== '+').length;
+        const newCount = hunkLines.filter(line => line.type !== '-').length;
+        const oldStart = oldCount > 0 ? oldLineAt[start] : oldLineAt[start] - 1;
+        const newStart = newCount > 0 ? newLineAt[start] : newLineAt[start] - 1;
+        body.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        body.push(...hunkLines.map(line => `${line.type}${line.text}`));
+    }
+
+    return [...header, ...body].join('\n');
+}
+
+function runGit(workingDirectory: string, args: string[]): string | undefined {
+    const result = child_process.spawnSync('git', args, { cwd: workingDirectory, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 });
+    return result.status === 0 ? result.stdout : undefined;
+}
+
+function hasCommits(workingDirectory: string, commitIds: string[]): boolean {
+    return commitIds.every(commitId => runGit(workingDirectory, ['cat-file', '-e', `${commitId}^{commit}`]) !== undefined);
+}
+
+function toGitPath(filePath: string): string {
+    return filePath.replace(/^\/+/, '');
+}
+
+function getGitDiff(workingDirectory: string, baseCommitId: string, commitId: string, change: GitPullRequestChange): string | undefined {
+    const paths = [change.originalPath, change.item?.path].filter((filePath): filePath is string => !!filePath).map(toGitPath);
+    return runGit(workingDirectory, ['-c', 'core.quotepath=false', 'diff', '--no-color', '--no-ext-diff', '-M', `--unified=${CONTEXT_LINES}`,
+        baseCommitId, commitId, '--', ...new Set(paths)])?.trimEnd();
+}
+
+async function getApiDiff(
+    connection: AzureDevOpsConnection,
+    baseCommitId: string,
+    commitId: string,
+    change: GitPullRequestChange
+): Promise<string> {
+    const filePath = change.item?.path;
+    const originalPath = change.originalPath ?? filePath;
+    const isAdd = change.changeType.includes('add');
+    const isDelete = change.changeType.includes('delete');
+
+    const oldContent = isAdd || !originalPath ? '' : await getFileContent(connection, originalPath, baseCommitId) ?? '';
+    const newContent = isDelete || !filePath ? '' : await getFileContent(connection, filePath, commitId) ?? '';
+    if (oldContent.includes('\0') || newContent.includes('\0')) {
+        return `diff --git a${originalPath} b${filePath}\nBinary files differ`;
+    }
+    return formatUnifiedDiff(isAdd ? undefined : originalPath, isDelete ? undefined : filePath, oldContent, newContent);
+}
+
+/**
+ * Cuts the diff at the last line that fits into the budget.
+ */
+function truncateDiff(diff: string, maxBytes: number): string {
+    const lines = diff.split('\n');
+    const kept: string[] = [];
+    let size = 0;
+    for (const line of lines) {
+        const lineSize = Buffer.byteLength(line, 'utf8') + 1;
+        if (size + lineSize > maxBytes) {
+            break;
+        }
+        kept.push(line);
+        size += lineSize;
+    }
+    return kept.join('\n');
+}
+
+/**
+ * The new-file line ranges of the hunks of a unified diff (changed lines and their context). Hunks that
+ * only remove lines have no range.
+ */
+export function parseHunkRanges(diff: string): LineRange[] {
+    const ranges: LineRange[] = [];
+    for (const match of diff.matchAll(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm)) {
+        const startLine = parseInt(match[1], 10);
+        const count = match[2] !== undefined ? parseInt(match[2], 10) : 1;
+        if (count > 0) {
+            ranges.push({ startLine, endLine: startLine + count - 1 });
+        }
+    }
+    return ranges;
+}
+
+function getReviewCommits(iterationContext: IterationContext): { commitId?: string; baseCommitId?: string } {
+    return {
+        commitId: iterationContext.iteration.sourceRefCommit?.commitId,
+        baseCommitId: iterationContext.compareToIteration?.sourceRefCommit?.commitId ??
+            iterationContext.iteration.commonRefCommit?.commitId
+    };
+}
+
+/**
+ * The hunk line ranges of each changed file of the iteration, keyed by file path. Files whose diff cannot be
+ * computed (or binary files) are left out, so their lines are not checked. Returns undefined when the
+ * iteration has no commits to compare.
+ */
+export async function getChangedLineRanges(
+    connection: AzureDevOpsConnection,
+    iterationContext: IterationContext,
+    workingDirectory: string
+): Promise<Map<string, LineRange[]> | undefined> {
+    const { commitId, baseCommitId } = getReviewCommits(iterationContext);
+    if (!commitId || !baseCommitId) {
+        return undefined;
+    }
+
+    const source = hasCommits(workingDirectory, [baseCommitId, commitId]) ? 'git' : 'api';
+    const ranges = new Map<string, LineRange[]>();
+    for (const change of iterationContext.changes) {
+        const filePath = change.item?.path;
+        if (!filePath || change.changeType.includes('delete')) {
+            continue;
+        }
+
+        try {
+            const diff = source === 'git'
+                ? getGitDiff(workingDirectory, baseCommitId, commitId, change)
+                : await getApiDiff(connection, baseCommitId, commitId, change);
+            if (diff !== undefined && !/^Binary files .* differ$/m.test(diff)) {
+                ranges.set(filePath, parseHunkRanges(diff));
+            }
+        } catch (err: unknown) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            tl.warning(`Could not compute the changed lines of ${filePath}: ${errorMessage}`);
+        }
+    }
+    return ranges;
+}
+
+function formatKb(bytes: number): string {
+    return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Writes PR_Diff.txt for the changes of the iteration and keeps it as an artifact. Returns
+ * undefined (with a warning) when the iteration has no commits to compare.
+ */
+export async function writeDiffFile(
+    connection: AzureDevOpsConnection,
+    iterationContext: IterationContext,
+    workingDirectory: string,
+    outputPath: string,
+    budget: DiffBudget
+): Promise<DiffContext | undefined> {
+    const { commitId, baseCommitId } = getReviewCommits(iterationContext);
+    if (!commitId || !baseCommitId) {
+        tl.warning(`${DIFF_FILE_NAME} not written: the iteration has no base or source commit.`);
+        return undefined;
+    }
+
+    const source = hasCommits(workingDirectory, [baseCommitId, commitId]) ? 'git' : 'api';
+    if (source === 'api') {
+        console.log('The review commits are not in the local clone (shallow clone?). Using the Azure DevOps API for the diffs.');
+    }
+
+    const context: DiffContext = { filePath: outputPath, source, files: 0, truncatedFiles: [], omittedFiles: [] };
+    const diffs: string[] = [];
+    let totalBytes = 0;
+
+    for (const change of iterationContext.changes) {
+        const filePath = change.item?.path ?? change.originalPath;
+        if (!filePath) {
+            continue;
+        }
+
+        let diff: string | undefined;
+        try {
+            diff = source === 'git'
+                ? getGitDiff(workingDirectory, baseCommitId, commitId, change)
+                : await getApiDiff(connection, baseCommitId, commitId, change);
+        } catch (err: unknown) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            tl.warning(`Could not compute the diff of ${filePath}: ${errorMessage}`);
+        }
+        if (diff === undefined) {
+            context.omittedFiles.push(filePath);
+            continue;
+        }
+        if (!diff) {
+            continue;
+        }
+
+        const diffBytes = Buffer.byteLength(diff, 'utf8');
+        if (budget.maxFileBytes > 0 && diffBytes > budget.maxFileBytes) {
+            diff = `${truncateDiff(diff, budget.maxFileBytes)}\n[DIFF TRUNCATED: ${formatKb(budget.maxFileBytes)} of ${formatKb(diffBytes)} shown (diffMaxFileKb). ` +
+                'Use git or read the file for the rest.]';
+            context.truncatedFiles.push(filePath);
+        }
+
+        const entryBytes = Buffer.byteLength(diff, 'utf8') + 2;
+        if (totalBytes + entryBytes > budget.maxTotalBytes) {
+            context.omittedFiles.push(filePath);
+            continue;
+        }
+        diffs.push(diff);
+        totalBytes += entryBytes;
+        context.files++;
+    }
+
+    const lines = [
+        'PULL REQUEST DIFF',
+        `Base commit: ${baseCommitId}`,
+        `Target commit: ${commitId}`,
+        `Diffs: ${context.files} file(s), computed with ${source === 'git' ? 'git' : 'the Azure DevOps API'}`,
+        `Size budget: ${budget.maxFileBytes > 0 ? formatKb(budget.maxFileBytes) : 'unlimited'} per file, ${formatKb(budget.maxTotalBytes)} in total`
+    ];
+    if (context.truncatedFiles.length > 0) {
+        lines.push('', 'TRUNCATED DIFFS (per-file budget):', ...context.truncatedFiles.map(file => `- ${file}`));
+    }
+    if (context.omittedFiles.length > 0) {
+        lines.push('', 'FILES WITHOUT DIFF (total budget reached or diff not available):', ...context.omittedFiles.map(file => `- ${file}`));
+    }
+    lines.push('', ...diffs.map(diff => `${diff}\n`));
+
+    fs.writeFileSync(outputPath, lines.join('\n'), 'utf8');
+    stageArtifactFile(outputPath);
+    return context;
+}
@@ -0,0 +1,70 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import { AzureDevOpsConnection, GitStatusState, createPullRequestStatus } from './azureDevOpsClient';
+
+/**
+ * Pull request status (publishStatus input): the review result is posted on the fastronome/copilot-review
+ * status context, so a required status policy can gate merges on it even when the review pipeline itself
+ * is not blocking. A pending status is posted when the review starts and the final status when it ends.
+ */
+
+export const STATUS_GENRE = 'fastronome';
+export const STATUS_NAME = 'copilot-review';
+
+// Longer descriptions are cut off in the PR status list
+const MAX_DESCRIPTION_LENGTH = 256;
+
+export type ReviewStatusTarget = {
+    connection: AzureDevOpsConnection;
+    pullRequestId: number;
+    targetUrl?: string;
+    dryRun: boolean;
+};
+
+/**
+ * Link to the pipeline run from the predefined variables, or undefined outside a pipeline.
+ */
+export function getPipelineRunUrl(): string | undefined {
+    const collectionUri = tl.getVariable('System.TeamFoundationCollectionUri');
+    const project = tl.getVariable('System.TeamProject');
+    const buildId = tl.getVariable('Build.BuildId');
+    if (!collectionUri || !project || !buildId) {
+        return undefined;
+    }
+    return `${collectionUri.replace(/\/+$/, '')}/${encodeURIComponent(project)}/_build/results?buildId=${buildId}`;
+}
+
+/**
+ * Failed task results (blocking findings, invalid prompt configuration) map to failed, Succeeded and
+ * SucceededWithIssues to succeeded. Errors and timeouts during the review are posted as error by the caller.
+ */
+export function getReviewStatusState(result: tl.TaskResult): GitStatusState {
+    return result === tl.TaskResult.Failed ? 'failed' : 'succeeded';
+}
+
+/**
+ * Posts the status on the pull request. In dry-run mode the status is only logged.
+ * Failures are logged as warnings and never fail the task.
+ */
+export async function publishReviewStatus(target: ReviewStatusTarget, state: GitStatusState, description: string): Promise<void> {
+    const shortDescription = description.length > MAX_DESCRIPTION_LENGTH
+        ? `${description.substring(0, MAX_DESCRIPTION_LENGTH - 3)}...`
+        : description;
+
+    if (target.dryRun) {
+        console.log(`[Dry run] Would set the ${STATUS_GENRE}/${STATUS_NAME} status to ${state}: ${shortDescription}`);
+        return;
+    }
+
+    try {
+        await createPullRequestStatus(target.connection, target.pullRequestId, {
+            state,
+            description: shortDescription,
+            context: { genre: STATUS_GENRE, name: STATUS_NAME },
+            targetUrl: target.targetUrl
+        });
+        console.log(`Set the ${STATUS_GENRE}/${STATUS_NAME} status to ${state}: ${shortDescription}`);
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        tl.warning(`Could not set the pull request status: ${errorMessage}`);
+    }
+}
@@ -0,0 +1,109 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Template layer for custom prompts (prompt / promptFile inputs):
+ * - {{include path/to/fragment.txt}} inserts a prompt fragment from the repository
+ * - {{#if name}} ... {{else}} ... {{/if}} keeps a section when the variable is set (e.g. wholeDiff, perFile)
+ * - {{name}} is replaced with the variable value (PR title, branches, changed files, ...)
+ * Includes are resolved once per review, variables and conditions per rendered prompt (batches differ).
+ */
+
+// Nested includes beyond this depth are most likely a cycle
+const MAX_INCLUDE_DEPTH = 5;
+
+const INCLUDE_PATTERN = /\{\{\s*include\s+([^}]+?)\s*\}\}/g;
+// An innermost conditional: no other {{#if}} between its opening and closing tag
+const CONDITIONAL_PATTERN = /\{\{\s*#if\s+([A-Za-z][A-Za-z0-9]*)\s*\}\}((?:(?!\{\{\s*#if\s)[\s\S])*?)\{\{\s*\/if\s*\}\}/;
+const ELSE_PATTERN = /\{\{\s*else\s*\}\}/;
+const UNMATCHED_CONDITIONAL_PATTERN = /\{\{\s*(#if\b[^}]*|else|\/if)\s*\}\}/;
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}/g;
+
+export type PromptTemplateVariables = {
+    pullRequestId: string;
+    prTitle: string;
+    sourceBranch: string;
+    targetBranch: string;
+    author: string;
+    // One repository path per line; the batch's files in batched reviews
+    changedFiles: string;
+    iterationId: string;
+    repository: string;
+    project: string;
+    // 'true' or empty, for {{#if wholeDiff}} / {{#if perFile}}
+    wholeDiff: string;
+    perFile: string;
+};
+
+function isInsideDirectory(directory: string, filePath: string): boolean {
+    const relativePath = path.relative(directory, filePath);
+    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+/**
+ * Replaces {{include path}} with the content of the file, resolved against the repository root. Included
+ * fragments may include other fragments. Throws when a file is missing or outside the repository, including
+ * through a symbolic link.
+ */
+export function resolvePromptIncludes(text: string, repositoryRoot: string, depth: number = 0): string {
+    return text.replace(INCLUDE_PATTERN, (_match, includePath: string) => {
+        if (depth >= MAX_INCLUDE_DEPTH) {
+            throw new Error(`Prompt includes are nested more than ${MAX_INCLUDE_DEPTH} levels deep at '${includePath}'.`);
+        }
+
+        const root = fs.realpathSync(path.resolve(repositoryRoot));
+        const filePath = path.resolve(root, includePath.trim().replace(/^['"]|['"]$/g, '').replace(/^[\\/]+/, ''));
+        if (!isInsideDirectory(root, filePath)) {
+            throw new Error(`Prompt include '${includePath}' is outside the repository.`);
+        }
+        if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+            throw new Error(`Prompt include not found: ${includePath}`);
+        }
+        // A symbolic link in the repository may point to a file outside of it
+        if (!isInsideDirectory(root, fs.realpathSync(filePath))) {
+            throw new Error(`Prompt include '${includePath}' is outside the repository.`);
+        }
+
+        return resolvePromptIncludes(fs.readFileSync(filePath, 'utf8').trim(), root, depth + 1);
+    });
+}
+
+function isSet(value: string | undefined): boolean {
+    return !!value && value !== 'false';
+}
+
+/**
+ * Evaluates the conditional sections, then replaces the variables. Variable values are inserted last, so
+ * template tags in a PR title or file name are not evaluated. Unknown variables are left as they are.
+ */
+export function renderPromptText(text: string, variables: PromptTemplateVariables): string {
+    const values: Record<string, string> = variables;
+    let rendered = text;
+
+    let match: RegExpExecArray | null;
+    while ((match = CONDITIONAL_PATTERN.exec(rendered)) !== null) {
+        const [branchIfSet, branchIfNotSet = ''] = match[2].split(ELSE_PATTERN);
+        const keep = isSet(values[match[1]]) ? branchIfSet : branchIfNotSet;
+        rendered = rendered.substring(0, match.index) + keep + rendered.substring(match.index + match[0].length);
+    }
+
+    const unmatched = UNMATCHED_CONDITIONAL_PATTERN.exec(rendered);
+    if (unmatched) {
+        throw new Error(`Unmatched '${unmatched[0]}' in the prompt template.`);
+    }
+
+    const unknown = new Set<string>();
+    rendered = rendered.replace(VARIABLE_PATTERN, (tag, name: string) => {
+        if (Object.prototype.hasOwnProperty.call(values, name)) {
+            return values[name];
+        }
+        unknown.add(name);
+        return tag;
+    });
+    if (unknown.size > 0) {
+        tl.warning(`Unknown prompt template variable(s) left as is: ${[...unknown].join(', ')}`);
+    }
+
+    return rendered;
+}
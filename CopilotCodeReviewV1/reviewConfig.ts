@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { GitPullRequestChange } from './azureDevOpsClient';
+import { JsonSchema, validateJsonSchema } from './jsonSchema';
+import { matchesAny, normalizePattern } from './pathFilters';
+
+/**
+ * Repository-level review configuration (.copilot-review.yml, see scripts/copilot-review.schema.json).
+ * Lets repository owners set the review behavior once instead of repeating task inputs in every pipeline.
+ * Task inputs take precedence over the file.
+ */
+
+export const CONFIG_FILE_NAMES = ['.copilot-review.yml', '.copilot-review.yaml'];
+
+export type PathInstruction = {
+    path: string;
+    instructions: string;
+};
+
+export type MatchedPathInstruction = PathInstruction & {
+    files: string[];
+};
+
+export type ReviewConfig = {
+    reviewBugs?: boolean;
+    reviewPerformance?: boolean;
+    reviewBestPractices?: boolean;
+    reviewWholeDiffAtOnce?: boolean;
+    reviewAcceptanceCriteria?: boolean;
+    additionalPrompts?: string[];
+    includePaths?: string[];
+    excludePaths?: string[];
+    useDefaultExcludes?: boolean;
+    pathInstructions?: PathInstruction[];
+    model?: string;
+    fallbackModels?: string[];
+    authors?: string[];
+};
+
+export type LoadedReviewConfig = {
+    filePath: string;
+    config: ReviewConfig;
+};
+
+const CONFIG_SCHEMA_FILE = path.join(__dirname, 'scripts', 'copilot-review.schema.json');
+
+/**
+ * Validates the parsed document against scripts/copilot-review.schema.json. Returns all errors so that
+ * they can be fixed in one go; an empty list means the document is valid. An empty file is valid.
+ */
+export function validateReviewConfig(document: unknown): string[] {
+    if (document === null || document === undefined) {
+        return [];
+    }
+
+    const schema = JSON.parse(fs.readFileSync(CONFIG_SCHEMA_FILE, 'utf8')) as JsonSchema;
+    return validateJsonSchema(document, schema);
+}
+
+/**
+ * Returns the config file to use: the explicit path when given, otherwise the first default file name
+ * found in the repository root. Returns undefined when there is no config file.
+ */
+export function findReviewConfigFile(repositoryRoot: string, explicitPath?: string): string | undefined {
+    if (explicitPath) {
+        if (!fs.existsSync(explicitPath) || !fs.statSync(explicitPath).isFile()) {
+            throw new Error(`Review config file not found: ${explicitPath}`);
+        }
+        return explicitPath;
+    }
+
+    return CONFIG_FILE_NAMES
+        .map(fileName => path.join(repositoryRoot, fileName))
+        .find(filePath => fs.existsSync(filePath) && fs.statSync(filePath).isFile());
+}
+
+/**
+ * Reads, parses and validates a config file. Throws with all validation errors when the file is invalid.
+ */
+export function loadReviewConfig(filePath: string): LoadedReviewConfig {
+    let document: unknown;
+    try {
+        document = yaml.load(fs.readFileSync(filePath, 'utf8'), { filename: filePath });
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        throw new Error(`Review config file ${filePath} could not be parsed: ${errorMessage}`);
+    }
+
+    const errors = validateReviewConfig(document);
+    if (errors.length > 0) {
+        throw new Error(`Review config file ${filePath} is invalid:\n- ${errors.join('\n- ')}`);
+    }
+
+    const config = (document ?? {}) as ReviewConfig;
+    return {
+        filePath,
+        config: {
+            ...config,
+            includePaths: config.includePaths?.map(normalizePattern),
+            excludePaths: config.excludePaths?.map(normalizePattern),
+            pathInstructions: config.pathInstructions?.map(entry => ({
+                path: normalizePattern(entry.path),
+                instructions: entry.instructions.trim()
+            }))
+        }
+    };
+}
+
+/**
+ * Parses the pathInstructions task input: one 'pattern: instructions' entry per line. The first colon
+ * followed by a space separates the glob pattern from the instructions.
+ */
+export function parsePathInstructions(input: string | undefined): PathInstruction[] {
+    if (!input) {
+        return [];
+    }
+
+    const entries: PathInstruction[] = [];
+    for (const line of input.split(/\r?\n/)) {
+        if (!line.trim()) {
+            continue;
+        }
+
+        const match = line.match(/^\s*(.+?):\s+(.+)$/);
+        if (!match) {
+            throw new Error(`Invalid pathInstructions entry (expected 'pattern: instructions'): ${line.trim()}`);
+        }
+        entries.push({ path: normalizePattern(match[1]), instructions: match[2].trim() });
+    }
+    return entries;
+}
+
+// A pattern without glob characters (e.g. 'src/auth') also matches everything below it as a directory
+function getInstructionPatterns(pattern: string): string[] {
+    return /[*?[\]{}!]/.test(pattern) ? [pattern] : [pattern, `${pattern.replace(/\/+$/, '')}/**`];
+}
+
+/**
+ * Keeps only the instructions whose pattern matches at least one changed file, together with the
+ * matching files, so the prompt only carries rules relevant to this iteration.
+ */
+export function matchPathInstructions(pathInstructions: PathInstruction[], changes: GitPullRequestChange[]): MatchedPathInstruction[] {
+    const changedFiles = changes
+        .map(change => change.item?.path)
+        .filter((filePath): filePath is string => !!filePath);
+
+    return pathInstructions
+        .map(entry => {
+            const patterns = getInstructionPatterns(entry.path);
+            return { ...entry, files: changedFiles.filter(filePath => matchesAny(filePath, patterns)) };
+        })
+        .filter(entry => entry.files.length > 0);
+}
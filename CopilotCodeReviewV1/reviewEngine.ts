@@ -0,0 +1,491 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as child_process from 'child_process';
+import * as readline from 'readline';
+import { CopilotEnvironmentOptions, buildCopilotEnvironment, redactSecrets } from './secrets';
+
+/**
+ * Review engines: the CLI that reads the review prompt and posts the review through the comment scripts.
+ * The GitHub Copilot CLI is the default, and the command engine runs any configured CLI with templated
+ * arguments. The fake engine runs nothing and is only used by the unit tests.
+ * Failed runs are classified from the exit code and output; withModelFallback retries rate-limited runs
+ * and moves on to the fallback models.
+ */
+
+export type ReviewEngineName = 'copilot' | 'command';
+
+export type EngineRunOptions = {
+    promptFilePath: string;
+    model?: string;
+    workingDirectory: string;
+    timeoutMs: number;
+    // The engine process gets the allowlisted environment from buildCopilotEnvironment, not the agent's environment
+    environment: CopilotEnvironmentOptions;
+    // Masked in the command lines the engine logs
+    secrets: string[];
+    // Set for runs in parallel (batches) or per thread: output lines are prefixed so interleaved logs stay readable
+    outputPrefix?: string;
+    // Called by withModelFallback before a failed run is retried. Returning false stops the retries, e.g. when
+    // the failed run already posted comments that the next attempt would post again.
+    beforeRetry?: () => Promise<boolean>;
+};
+
+export type ReviewEngine = {
+    // 'fake' is the test engine, which cannot be selected with the engine input
+    name: ReviewEngineName | 'fake';
+    displayName: string;
+    detect(): Promise<boolean>;
+    install(): Promise<void>;
+    run(options: EngineRunOptions): Promise<void>;
+};
+
+export type CommandEngineConfig = {
+    command: string;
+    // One argument per entry; placeholders are expanded by expandEngineArguments
+    args: string[];
+};
+
+export type EngineFailureKind = 'rateLimit' | 'auth' | 'modelUnavailable' | 'timeout' | 'other';
+
+export const DEFAULT_COMMAND_ENGINE_ARGUMENTS = ['{promptFile}'];
+
+// Attempts per model when the engine reports a rate limit, before the next fallback model is tried
+const RATE_LIMIT_ATTEMPTS = 2;
+const RATE_LIMIT_BASE_DELAY_MS = 30000;
+const MAX_RATE_LIMIT_DELAY_MS = 300000;
+
+// Only the end of the output is classified: the prompt and the review itself are printed before it
+const CLASSIFIED_OUTPUT_LINES = 40;
+
+const FAILURE_PATTERNS: { kind: EngineFailureKind; pattern: RegExp }[] = [
+    { kind: 'rateLimit', pattern: /\b429\b|rate[ -]?limit|too many requests|quota (?:exceeded|reached)|exceeded your .*(?:quota|limit)|throttl/i },
+    {
+        kind: 'modelUnavailable',
+        pattern: /\bmodel\b.*\b(?:not (?:available|supported|found|enabled)|unavailable|unknown|invalid)\b|\b(?:unknown|invalid|unsupported|unavailable) model\b|--model\b.*\binvalid\b/i
+    },
+    {
+        kind: 'auth',
+        pattern: /\b40[13]\b|unauthori[sz]ed|forbidden|authentication (?:failed|required)|not (?:logged|signed) in|please (?:log|sign) in|invalid (?:token|credentials)|no copilot (?:access|subscription)/i
+    }
+];
+
+const FAILURE_LABELS: Record<EngineFailureKind, string> = {
+    rateLimit: 'rate limit',
+    auth: 'authentication',
+    modelUnavailable: 'model unavailable',
+    timeout: 'timeout',
+    other: 'error'
+};
+
+export class ReviewEngineError extends Error {
+    constructor(
+        message: string,
+        public readonly kind: EngineFailureKind,
+        public readonly exitCode?: number | null,
+        // Set when the output says how long to wait before retrying
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = 'ReviewEngineError';
+    }
+}
+
+export class ReviewTimeoutError extends ReviewEngineError {
+    constructor(public readonly timeoutMinutes: number, engineDisplayName: string) {
+        super(`${engineDisplayName} review timed out after ${timeoutMinutes} minutes`, 'timeout');
+        this.name = 'ReviewTimeoutError';
+    }
+}
+
+function isWindows(): boolean {
+    return process.platform === 'win32';
+}
+
+/**
+ * A single-quoted PowerShell string literal: nothing inside is expanded, and single quotes (including the
+ * typographic ones PowerShell also accepts) are doubled.
+ */
+function quotePowerShellString(value: string): string {
+    return `'${value.replace(/['\u2018\u2019\u201a\u201b]/g, quote => quote + quote)}'`;
+}
+
+export function parseReviewEngineName(input: string | undefined): ReviewEngineName {
+    return input === 'command' ? input : 'copilot';
+}
+
+/**
+ * Splits a comma- and/or newline-separated list of model names (fallbackModels input).
+ */
+export function parseModelList(input: string | undefined): string[] {
+    if (!input) {
+        return [];
+    }
+
+    return input
+        .split(/[\r\n,]+/)
+        .map(model => model.trim())
+        .filter(Boolean);
+}
+
+/**
+ * One argument per line. Lines are not split further, so an argument may contain spaces.
+ */
+export function parseEngineArguments(input: string | undefined): string[] {
+    if (!input) {
+        return [];
+    }
+
+    return input
+        .split(/\r?\n/)
+        .map(arg => arg.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Replaces {promptFile}, {workingDirectory}, {model} and {timeoutMinutes} in each argument. Arguments that
+ * are empty after expansion (e.g. {model} when no model is set) are dropped.
+ */
+export function expandEngineArguments(args: string[], options: EngineRunOptions): string[] {
+    const values: Record<string, string> = {
+        promptFile: options.promptFilePath,
+        workingDirectory: options.workingDirectory,
+        model: options.model ?? '',
+        timeoutMinutes: `${Math.max(1, Math.round(options.timeoutMs / 60000))}`
+    };
+
+    return args
+        .map(arg => arg.replace(/\{(promptFile|workingDirectory|model|timeoutMinutes)\}/g, (_match, name: string) => values[name]))
+        .filter(Boolean);
+}
+
+/**
+ * Classifies a failed run from its exit code and the end of its output. Exit code 0 is never a failure;
+ * the CLIs use generic non-zero exit codes, so the output decides the kind.
+ */
+export function classifyEngineFailure(exitCode: number | null, outputLines: string[]): EngineFailureKind {
+    if (exitCode === 0) {
+        return 'other';
+    }
+
+    const output = outputLines.slice(-CLASSIFIED_OUTPUT_LINES).join('\n');
+    return FAILURE_PATTERNS.find(({ pattern }) => pattern.test(output))?.kind ?? 'other';
+}
+
+/**
+ * The wait the output asks for, e.g. "try again in 30 seconds" or "retry after 2 minutes".
+ */
+function getRetryAfterFromOutput(outputLines: string[]): number | undefined {
+    const output = outputLines.slice(-CLASSIFIED_OUTPUT_LINES).join('\n');
+    const match = /(?:retry|try again)\s+(?:after|in)\s+(\d+)\s*(s|sec|secs|seconds?|m|min|mins|minutes?)\b/i.exec(output);
+    if (!match) {
+        return undefined;
+    }
+    return parseInt(match[1], 10) * (match[2].toLowerCase().startsWith('m') ? 60000 : 1000);
+}
+
+/**
+ * Breaks up logging commands (##vso[...]) and formatting commands (##[...]) in output that the model or the
+ * pull request content controls, so that echoing it cannot run them. The line still reads the same.
+ */
+export function escapeLoggingCommands(text: string): string {
+    return text.replace(/##(vso)?\[/gi, '#\u200B#$1[');
+}
+
+/**
+ * Spawns the engine process and waits for it. The output is echoed line by line and the end of it is kept
+ * to classify failures. Rejects with ReviewTimeoutError when the timeout is reached (the process is
+ * terminated) and with a ReviewEngineError on a non-zero exit code.
+ */
+function runEngineProcess(engineDisplayName: string, command: string, args: string[], options: EngineRunOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+        // Only allowlisted variables: the model's shell tools can read everything in this environment
+        const envVars = buildCopilotEnvironment(process.env, options.environment);
+        const linePrefix = options.outputPrefix ? `${options.outputPrefix} ` : '';
+        const outputTail: string[] = [];
+        const keepLine = (line: string) => {
+            outputTail.push(line);
+            if (outputTail.length > CLASSIFIED_OUTPUT_LINES) {
+                outputTail.shift();
+            }
+        };
+
+        const engineProcess = child_process.spawn(
+            command,
+            args,
+            {
+                shell: false,
+                stdio: ['ignore', 'pipe', 'pipe'],
+                cwd: options.workingDirectory,
+                env: envVars
+            }
+        );
+
+        // Both streams close before the process 'close' event, so the tail is complete when it is classified
+        readline.createInterface({ input: engineProcess.stdout! }).on('line', line => {
+            console.log(`${linePrefix}${escapeLoggingCommands(line)}`);
+            keepLine(line);
+        });
+        readline.createInterface({ input: engineProcess.stderr! }).on('line', line => {
+            console.error(`${linePrefix}${escapeLoggingCommands(line)}`);
+            keepLine(line);
+        });
+
+        // Set up timeout (batch timeouts may be capped by the overall deadline, so round for display)
+        const timeoutLabel = Number((options.timeoutMs / 60000).toFixed(1));
+        const timeoutId = setTimeout(() => {
+            console.log(`\n${linePrefix}Timeout reached (${timeoutLabel} minutes). Terminating ${engineDisplayName} process...`);
+            engineProcess.kill('SIGTERM');
+            reject(new ReviewTimeoutError(timeoutLabel, engineDisplayName));
+        }, options.timeoutMs);
+
+        engineProcess.on('close', (code) => {
+            clearTimeout(timeoutId);
+            if (code === 0) {
+                resolve();
+            } else {
+                const kind = classifyEngineFailure(code, outputTail);
+                const retryAfterMs = kind === 'rateLimit' ? getRetryAfterFromOutput(outputTail) : undefined;
+                reject(new ReviewEngineError(`${engineDisplayName} exited with code: ${code} (${FAILURE_LABELS[kind]})`, kind, code, retryAfterMs));
+            }
+        });
+
+        engineProcess.on('error', (err) => {
+            clearTimeout(timeoutId);
+            reject(new ReviewEngineError(`Failed to run ${engineDisplayName}: ${err.message}`, 'other'));
+        });
+    });
+}
+
+export function createCopilotEngine(): ReviewEngine {
+    const displayName = 'GitHub Copilot CLI';
+
+    return {
+        name: 'copilot',
+        displayName,
+
+        async detect(): Promise<boolean> {
+            try {
+                const result = child_process.spawnSync('copilot', ['--version'], {
+                    encoding: 'utf8',
+                    shell: true
+                });
+                return result.status === 0;
+            } catch {
+                return false;
+            }
+        },
+
+        install(): Promise<void> {
+            return new Promise((resolve, reject) => {
+                let command: string;
+                let args: string[];
+
+                if (isWindows()) {
+                    console.log('Installing GitHub Copilot CLI via winget...');
+                    command = 'winget';
+                    args = ['install', 'GitHub.Copilot', '--silent', '--accept-package-agreements', '--accept-source-agreements'];
+                } else {
+                    console.log('Installing GitHub Copilot CLI via official install script...');
+                    // Use the official GitHub install script which downloads a pre-built binary
+                    // The script installs to $HOME/.local/bin by default for non-root users
+                    // Pass the full command as a single string when using shell: true
+                    command = 'curl -fsSL https://gh.io/copilot-install | bash';
+                    args = [];
+                }
+
+                const installProcess = child_process.spawn(
+                    command,
+                    args,
+                    {
+                        shell: true,
+                        stdio: 'inherit'
+                    }
+                );
+
+                installProcess.on('close', (code: number | null) => {
+                    if (code === 0) {
+                        console.log('GitHub Copilot CLI installed successfully.');
+                        // On Linux, add the install location to PATH for the current process
+                        if (!isWindows()) {
+                            const homeDir = process.env['HOME'] || '';
+                            const localBin = path.join(homeDir, '.local', 'bin');
+                            process.env['PATH'] = `${localBin}:${process.env['PATH']}`;
+                            console.log(`Added ${localBin} to PATH.`);
+                        }
+                        resolve();
+                    } else {
+                        reject(new Error(`Failed to install GitHub Copilot CLI. Exit code: ${code}`));
+                    }
+                });
+
+                installProcess.on('error', (err: Error) => {
+                    reject(new Error(`Failed to install GitHub Copilot CLI: ${err.message}`));
+                });
+            });
+        },
+
+        run(options: EngineRunOptions): Promise<void> {
+            // Build PowerShell command that reads prompt file and passes content to copilot CLI
+            // This mirrors the original implementation: $prompt = Get-Content -Path "prompt.txt" -Raw; copilot -p $prompt ...
+            // The prompt is only ever a variable value, and Standard argument passing escapes its quotes for the CLI
+            let copilotCmd = `copilot -p $prompt --allow-all-paths --allow-all-tools --deny-tool 'shell(git push)'`;
+            if (options.model) {
+                copilotCmd += ` --model ${quotePowerShellString(options.model)}`;
+            }
+
+            const printPrompt = `Write-Host ========== START PROMPT ==========; Write-Host $prompt; Write-Host ========== END PROMPT ==========;`;
+            const envRefresh = `$env:Path = [System.Environment]::GetEnvironmentVariable("Path","Machine") + ";" + [System.Environment]::GetEnvironmentVariable("Path","User");`
+            const argumentPassing = `$PSNativeCommandArgumentPassing = 'Standard';`;
+            const psCommand = `${envRefresh} ${argumentPassing} $prompt = Get-Content -LiteralPath ${quotePowerShellString(options.promptFilePath)} -Raw; ${printPrompt} ${copilotCmd}`;
+            console.log(`Running Powershell: ${redactSecrets(psCommand, options.secrets)}`);
+
+            return runEngineProcess(displayName, 'pwsh', ['-NoProfile', '-Command', psCommand], options);
+        }
+    };
+}
+
+/**
+ * Runs the configured command without a shell. The command must already be installed on the agent;
+ * it is looked up on the PATH unless it is a path.
+ */
+export function createCommandEngine(config: CommandEngineConfig): ReviewEngine {
+    const displayName = `command '${config.command}'`;
+    const args = config.args.length > 0 ? config.args : DEFAULT_COMMAND_ENGINE_ARGUMENTS;
+
+    return {
+        name: 'command',
+        displayName,
+
+        async detect(): Promise<boolean> {
+            return path.isAbsolute(config.command) ? fs.existsSync(config.command) : !!tl.which(config.command, false);
+        },
+
+        async install(): Promise<void> {
+            throw new Error(`The engine command '${config.command}' was not found. Install it on the agent before the review task runs.`);
+        },
+
+        run(options: EngineRunOptions): Promise<void> {
+            const expandedArgs = expandEngineArguments(args, options);
+            console.log(`Running ${config.command}: ${redactSecrets(JSON.stringify(expandedArgs), options.secrets)}`);
+            return runEngineProcess(displayName, config.command, expandedArgs, options);
+        }
+    };
+}
+
+/**
+ * An engine that reviews nothing, for the unit tests. By default it logs the prompt it would have passed
+ * on; a respond function can stand in for the reviewer, e.g. by failing like a rate-limited run.
+ */
+export function createFakeEngine(respond?: (options: EngineRunOptions) => void | Promise<void>): ReviewEngine {
+    return {
+        name: 'fake',
+        displayName: 'fake engine',
+
+        async detect(): Promise<boolean> {
+            return true;
+        },
+
+        async install(): Promise<void> {
+            // Nothing to install
+        },
+
+        async run(options: EngineRunOptions): Promise<void> {
+            const prefix = options.outputPrefix ? `${options.outputPrefix} ` : '';
+            const prompt = fs.readFileSync(options.promptFilePath, 'utf8');
+            console.log(`${prefix}[Fake engine] Prompt ${options.promptFilePath} (${prompt.length} characters). No review is performed.`);
+            if (respond) {
+                await respond(options);
+            }
+        }
+    };
+}
+
+/**
+ * Wraps an engine so a failed run is retried: a rate-limited run waits (as long as the output asks, or with
+ * exponential backoff) and tries the same model again, and when it is still rate limited or the model is
+ * unavailable, the next fallback model is tried. Authentication failures, timeouts and other errors are
+ * not retried. All attempts share the run's timeout, and options.beforeRetry can veto a retry. Every
+ * attempt and its outcome is logged.
+ */
+export function withModelFallback(engine: ReviewEngine, fallbackModels: string[]): ReviewEngine {
+    return {
+        ...engine,
+
+        async run(options: EngineRunOptions): Promise<void> {
+            const prefix = options.outputPrefix ? `${options.outputPrefix} ` : '';
+            const models = [options.model, ...fallbackModels.filter(model => model !== options.model)];
+            const deadline = Date.now() + options.timeoutMs;
+            const timeoutLabel = Number((options.timeoutMs / 60000).toFixed(1));
+            let attempt = 0;
+
+            // Retries are skipped when beforeRetry vetoes them or fails
+            const mayRetry = async (): Promise<boolean> => {
+                if (!options.beforeRetry) {
+                    return true;
+                }
+                try {
+                    return await options.beforeRetry();
+                } catch (err: unknown) {
+                    const errorMessage = err instanceof Error ? err.message : String(err);
+                    tl.warning(`${prefix}Not retrying: ${errorMessage}`);
+                    return false;
+                }
+            };
+
+            for (let modelIndex = 0; modelIndex < models.length; modelIndex++) {
+                const model = models[modelIndex];
+                const modelLabel = model ? `model ${model}` : 'the default model';
+
+                for (let modelAttempt = 1; ; modelAttempt++) {
+                    const remainingMs = deadline - Date.now();
+                    if (remainingMs <= 0) {
+                        throw new ReviewTimeoutError(timeoutLabel, engine.displayName);
+                    }
+
+                    attempt++;
+                    console.log(`${prefix}[Attempt ${attempt}] Running ${engine.displayName} with ${modelLabel} ` +
+                        `(${Number((remainingMs / 60000).toFixed(1))} of ${timeoutLabel} minutes left)...`);
+                    try {
+                        await engine.run({ ...options, model, timeoutMs: remainingMs });
+                        console.log(`${prefix}[Attempt ${attempt}] Succeeded with ${modelLabel}.`);
+                        return;
+                    } catch (err: unknown) {
+                        const kind = err instanceof ReviewEngineError ? err.kind : 'other';
+                        const errorMessage = err instanceof Error ? err.message : String(err);
+                        console.log(`${prefix}[Attempt ${attempt}] Failed (${FAILURE_LABELS[kind]}) with ${modelLabel}: ${errorMessage}`);
+
+                        const hasFallback = modelIndex < models.length - 1;
+                        const retryAfterMs = err instanceof ReviewEngineError ? err.retryAfterMs : undefined;
+                        const delayMs = Math.min(retryAfterMs ?? RATE_LIMIT_BASE_DELAY_MS * 2 ** (modelAttempt - 1), MAX_RATE_LIMIT_DELAY_MS);
+                        // Waiting only makes sense when the retry still has time to run after the wait
+                        const retrySameModel = kind === 'rateLimit' && modelAttempt < RATE_LIMIT_ATTEMPTS && delayMs < deadline - Date.now();
+                        const fallBack = (kind === 'rateLimit' || kind === 'modelUnavailable') && hasFallback;
+                        if ((!retrySameModel && !fallBack) || !(await mayRetry())) {
+                            throw err;
+                        }
+                        if (retrySameModel) {
+                            console.log(`${prefix}Rate limited. Retrying ${modelLabel} in ${Math.ceil(delayMs / 1000)}s...`);
+                            await new Promise(resolve => setTimeout(resolve, delayMs));
+                            continue;
+                        }
+                        console.log(`${prefix}Falling back to model ${models[modelIndex + 1]}.`);
+                        break;
+                    }
+                }
+            }
+        }
+    };
+}
+
+export function createReviewEngine(name: ReviewEngineName, commandConfig?: CommandEngineConfig): ReviewEngine {
+    switch (name) {
+        case 'command':
+            if (!commandConfig?.command) {
+                throw new Error("The engineCommand input is required when engine is 'command'.");
+            }
+            return createCommandEngine(commandConfig);
+        default:
+            return createCopilotEngine();
+    }
+}
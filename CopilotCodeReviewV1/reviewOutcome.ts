@@ -0,0 +1,184 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import { AzureDevOpsConnection, PullRequestThread, getThreads } from './azureDevOpsClient';
+import { FindingStatus } from './findings';
+import { getCopilotThreads } from './prDetails';
+import { hasSecretScanThreadProperty } from './reviewState';
+
+/**
+ * Evaluates Copilot threads by their status label (✅ Passed / ❓ Questions / ❌ Not Passed). The threads
+ * created during this run are reported (output variables, run summary); the task result and the vote
+ * are decided by all Copilot threads that are still open after the run, so a finding that was not posted
+ * again (duplicate detection) or was posted by an earlier run still counts until it is resolved. Changes
+ * to previously existing Copilot threads (updated, resolved, deleted comments) are reported for the run
+ * summary.
+ */
+
+export type FailOnSeverity = 'none' | 'questions' | 'notPassed';
+
+export type ReviewStatusCounts = {
+    passed: number;
+    questions: number;
+    notPassed: number;
+    unlabeled: number;
+    total: number;
+};
+
+export type ThreadActivity = {
+    created: number;
+    updated: number;
+    resolved: number;
+    deleted: number;
+};
+
+export type ReviewOutcome = {
+    counts: ReviewStatusCounts;
+    // All open Copilot threads after the run; secret scan threads only with includeSecretScan
+    openCounts: ReviewStatusCounts;
+    threads: PullRequestThread[];
+    activity: ThreadActivity;
+    updatedThreads: PullRequestThread[];
+    resolvedThreads: PullRequestThread[];
+};
+
+export const OUTPUT_VARIABLES = {
+    threadCount: 'CopilotReview.ThreadCount',
+    passedCount: 'CopilotReview.PassedCount',
+    questionsCount: 'CopilotReview.QuestionsCount',
+    notPassedCount: 'CopilotReview.NotPassedCount'
+};
+
+export function parseFailOnSeverity(input: string | undefined): FailOnSeverity {
+    return input === 'questions' || input === 'notPassed' ? input : 'none';
+}
+
+/**
+ * Returns the most severe status label found in a comment. Whole-diff comments contain one label per
+ * file row, so ❌ Not Passed wins over ❓ Questions, which wins over ✅ Passed.
+ */
+export function getStatusLabel(content: string | undefined): FindingStatus | undefined {
+    if (!content) {
+        return undefined;
+    }
+
+    const statusLine = content.match(/^\s*(?:\*\*)?status(?:\*\*)?\s*:?\s*(?:\*\*)?\s*(?<status>(?:✅\s*)?passed|(?:❓\s*)?questions|(?:❌\s*)?not\s*passed)/im);
+    if (/❌\s*not\s*passed/i.test(content) || /not\s*passed/i.test(statusLine?.groups?.status ?? '')) {
+        return 'notPassed';
+    }
+    if (/❓\s*questions/i.test(content) || /questions/i.test(statusLine?.groups?.status ?? '')) {
+        return 'questions';
+    }
+    if (/✅\s*passed/i.test(content) || statusLine) {
+        return 'passed';
+    }
+    return undefined;
+}
+
+export function countCommentStatusLabels(contents: (string | undefined)[]): ReviewStatusCounts {
+    const counts: ReviewStatusCounts = { passed: 0, questions: 0, notPassed: 0, unlabeled: 0, total: contents.length };
+    for (const content of contents) {
+        const label = getStatusLabel(content);
+        if (label) {
+            counts[label]++;
+        } else {
+            counts.unlabeled++;
+        }
+    }
+    return counts;
+}
+
+export function countStatusLabels(threads: PullRequestThread[]): ReviewStatusCounts {
+    return countCommentStatusLabels(threads.map(thread => thread.comments[0]?.content));
+}
+
+function isOpenStatus(status: PullRequestThread['status']): boolean {
+    return status === 'active' || status === 'pending';
+}
+
+/**
+ * Counts the open (active or pending) Copilot threads. Secret scan threads are left out unless
+ * includeSecretScan (failOnSecrets) is set.
+ */
+export function countOpenThreads(threads: PullRequestThread[], includeSecretScan: boolean): ReviewStatusCounts {
+    return countStatusLabels(getCopilotThreads(threads)
+        .filter(thread => isOpenStatus(thread.status) && (includeSecretScan || !hasSecretScanThreadProperty(thread))));
+}
+
+/**
+ * Fetches the PR threads again and compares them with the threads fetched before the review:
+ * Copilot threads that did not exist before are the threads created in this run.
+ */
+export async function collectReviewOutcome(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    previousThreads: PullRequestThread[],
+    includeSecretScan: boolean
+): Promise<ReviewOutcome> {
+    const previousById = new Map(previousThreads.map(thread => [thread.id, thread]));
+    const copilotThreads = getCopilotThreads(await getThreads(connection, pullRequestId));
+    const threads = copilotThreads.filter(thread => !previousById.has(thread.id));
+
+    const updatedThreads: PullRequestThread[] = [];
+    const resolvedThreads: PullRequestThread[] = [];
+    let deleted = 0;
+
+    for (const thread of copilotThreads) {
+        const previous = previousById.get(thread.id);
+        if (!previous) {
+            continue;
+        }
+
+        const previousComments = new Map(previous.comments.map(comment => [comment.id, comment]));
+        const deletedComments = thread.comments.filter(comment => comment.isDeleted && !previousComments.get(comment.id)?.isDeleted);
+        deleted += deletedComments.length;
+
+        if (isOpenStatus(previous.status) && thread.status !== undefined && !isOpenStatus(thread.status)) {
+            resolvedThreads.push(thread);
+            continue;
+        }
+
+        const contentChanged = thread.comments.some(comment => {
+            const previousComment = previousComments.get(comment.id);
+            return !comment.isDeleted && (!previousComment || previousComment.content !== comment.content);
+        });
+        if (thread.status !== previous.status || contentChanged) {
+            updatedThreads.push(thread);
+        }
+    }
+
+    return {
+        counts: countStatusLabels(threads),
+        openCounts: countOpenThreads(copilotThreads, includeSecretScan),
+        threads,
+        activity: { created: threads.length, updated: updatedThreads.length, resolved: resolvedThreads.length, deleted },
+        updatedThreads,
+        resolvedThreads
+    };
+}
+
+export function setOutputVariables(counts: ReviewStatusCounts): void {
+    tl.setVariable(OUTPUT_VARIABLES.threadCount, counts.total.toString(), false, true);
+    tl.setVariable(OUTPUT_VARIABLES.passedCount, counts.passed.toString(), false, true);
+    tl.setVariable(OUTPUT_VARIABLES.questionsCount, counts.questions.toString(), false, true);
+    tl.setVariable(OUTPUT_VARIABLES.notPassedCount, counts.notPassed.toString(), false, true);
+}
+
+/**
+ * Maps the counts to a task result. Findings at or above the threshold fail the task; findings below it
+ * mark the task as SucceededWithIssues. With 'none' the task always succeeds.
+ */
+export function evaluateReviewResult(counts: ReviewStatusCounts, failOnSeverity: FailOnSeverity): { result: tl.TaskResult; message: string } {
+    const summary = `${counts.notPassed} not passed, ${counts.questions} questions, ${counts.passed} passed`;
+
+    if (failOnSeverity === 'none') {
+        return { result: tl.TaskResult.Succeeded, message: `Copilot code review completed (${summary}).` };
+    }
+
+    const blocking = failOnSeverity === 'questions' ? counts.notPassed + counts.questions : counts.notPassed;
+    if (blocking > 0) {
+        return { result: tl.TaskResult.Failed, message: `Copilot code review found blocking issues (${summary}).` };
+    }
+    if (counts.questions > 0) {
+        return { result: tl.TaskResult.SucceededWithIssues, message: `Copilot code review completed with open questions (${summary}).` };
+    }
+    return { result: tl.TaskResult.Succeeded, message: `Copilot code review completed (${summary}).` };
+}
@@ -0,0 +1,82 @@
+import { AzureDevOpsConnection, PullRequestThread, getPullRequestProperties, setPullRequestProperties } from './azureDevOpsClient';
+
+/**
+ * Review state persisted on the pull request itself (as PR and thread properties), so that subsequent
+ * pipeline runs can tell which iteration Copilot has already reviewed and which threads it created.
+ */
+
+export const LAST_REVIEWED_ITERATION_PROPERTY = 'Fastronome.CopilotReview.LastReviewedIteration';
+export const LAST_VOTED_ITERATION_PROPERTY = 'Fastronome.CopilotReview.LastVotedIteration';
+
+// Set on every thread created by the task or by Add-CopilotComment.ps1
+export const COPILOT_THREAD_PROPERTY = 'Fastronome.CopilotReview';
+export const THREAD_RUN_ID_PROPERTY = 'Fastronome.CopilotReview.RunId';
+export const THREAD_MODEL_PROPERTY = 'Fastronome.CopilotReview.Model';
+export const THREAD_ITERATION_PROPERTY = 'Fastronome.CopilotReview.IterationId';
+export const THREAD_FINGERPRINT_PROPERTY = 'Fastronome.CopilotReview.Fingerprint';
+// Set on the threads of secret scan findings, which only block the review with failOnSecrets
+export const THREAD_SECRET_SCAN_PROPERTY = 'Fastronome.CopilotReview.SecretScan';
+
+export type ThreadIdentity = {
+    runId?: string;
+    model?: string;
+    iterationId?: number;
+};
+
+async function getIterationProperty(connection: AzureDevOpsConnection, pullRequestId: number, name: string): Promise<number | undefined> {
+    const properties = await getPullRequestProperties(connection, pullRequestId);
+    const property = properties[name];
+    if (!property) {
+        return undefined;
+    }
+
+    const iterationId = parseInt(String(property.$value), 10);
+    return isNaN(iterationId) || iterationId <= 0 ? undefined : iterationId;
+}
+
+export async function getLastReviewedIteration(connection: AzureDevOpsConnection, pullRequestId: number): Promise<number | undefined> {
+    return getIterationProperty(connection, pullRequestId, LAST_REVIEWED_ITERATION_PROPERTY);
+}
+
+export async function setLastReviewedIteration(connection: AzureDevOpsConnection, pullRequestId: number, iterationId: number): Promise<void> {
+    await setPullRequestProperties(connection, pullRequestId, {
+        [LAST_REVIEWED_ITERATION_PROPERTY]: iterationId.toString()
+    });
+}
+
+/**
+ * Iteration the task last voted on, so the vote can be reset when a new iteration is pushed.
+ */
+export async function getLastVotedIteration(connection: AzureDevOpsConnection, pullRequestId: number): Promise<number | undefined> {
+    return getIterationProperty(connection, pullRequestId, LAST_VOTED_ITERATION_PROPERTY);
+}
+
+export async function setLastVotedIteration(connection: AzureDevOpsConnection, pullRequestId: number, iterationId: number): Promise<void> {
+    await setPullRequestProperties(connection, pullRequestId, {
+        [LAST_VOTED_ITERATION_PROPERTY]: iterationId.toString()
+    });
+}
+
+export function getCopilotThreadProperties(identity: ThreadIdentity): Record<string, string | number> {
+    const properties: Record<string, string | number> = { [COPILOT_THREAD_PROPERTY]: 'true' };
+    if (identity.runId) {
+        properties[THREAD_RUN_ID_PROPERTY] = identity.runId;
+    }
+    if (identity.model) {
+        properties[THREAD_MODEL_PROPERTY] = identity.model;
+    }
+    if (identity.iterationId) {
+        properties[THREAD_ITERATION_PROPERTY] = identity.iterationId;
+    }
+    return properties;
+}
+
+export function hasCopilotThreadProperty(thread: PullRequestThread): boolean {
+    const marker = thread.properties?.[COPILOT_THREAD_PROPERTY];
+    return !!marker && String(marker.$value).toLowerCase() === 'true';
+}
+
+export function hasSecretScanThreadProperty(thread: PullRequestThread): boolean {
+    const marker = thread.properties?.[THREAD_SECRET_SCAN_PROPERTY];
+    return !!marker && String(marker.$value).toLowerCase() === 'true';
+}
@@ -0,0 +1,108 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import {
+    AzureDevOpsConnection,
+    GitPullRequest,
+    getAuthenticatedIdentity,
+    setReviewerVote
+} from './azureDevOpsClient';
+import { ReviewStatusCounts } from './reviewOutcome';
+import { getLastVotedIteration, setLastVotedIteration } from './reviewState';
+
+/**
+ * Reviewer vote (vote input): the identity the task authenticates as is added as a reviewer and votes
+ * from the status labels of the open Copilot threads after the review. The vote belongs to one iteration
+ * and is reset to "no vote" when a new iteration is pushed, before that iteration is reviewed.
+ */
+
+export type ReviewerVote = 10 | 5 | 0 | -5 | -10;
+
+export const VOTE_LABELS: Record<ReviewerVote, string> = {
+    10: 'Approved',
+    5: 'Approved with suggestions',
+    0: 'No vote',
+    [-5]: 'Waiting for author',
+    [-10]: 'Rejected'
+};
+
+/**
+ * ❌ Not Passed => Rejected, ❓ Questions => Waiting for author, comments without a status label =>
+ * Approved with suggestions, only ✅ Passed (or no comments) => Approved.
+ */
+export function getVoteFromCounts(counts: ReviewStatusCounts): ReviewerVote {
+    if (counts.notPassed > 0) {
+        return -10;
+    }
+    if (counts.questions > 0) {
+        return -5;
+    }
+    if (counts.unlabeled > 0) {
+        return 5;
+    }
+    return 10;
+}
+
+/**
+ * Resets the task's vote when it was cast on an older iteration than the latest one.
+ * Failures are logged as warnings and never fail the task.
+ */
+export async function resetVoteForNewIteration(
+    connection: AzureDevOpsConnection,
+    pullRequest: GitPullRequest,
+    latestIterationId: number | undefined,
+    dryRun: boolean
+): Promise<void> {
+    try {
+        const lastVotedIteration = await getLastVotedIteration(connection, pullRequest.pullRequestId);
+        if (lastVotedIteration === undefined || latestIterationId === undefined || lastVotedIteration >= latestIterationId) {
+            return;
+        }
+
+        const identity = await getAuthenticatedIdentity(connection);
+        const currentVote = pullRequest.reviewers?.find(reviewer => reviewer.id === identity.id)?.vote ?? 0;
+        if (currentVote === 0) {
+            return;
+        }
+
+        if (dryRun) {
+            console.log(`[Dry run] Would reset the vote cast on iteration #${lastVotedIteration} to "No vote".`);
+            return;
+        }
+        await setReviewerVote(connection, pullRequest.pullRequestId, identity.id!, 0);
+        console.log(`Reset the vote cast on iteration #${lastVotedIteration} to "No vote" (new iteration #${latestIterationId}).`);
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        tl.warning(`Could not reset the reviewer vote: ${errorMessage}`);
+    }
+}
+
+/**
+ * Casts the vote for the reviewed iteration and returns it (in dry-run mode, the vote that would have been
+ * cast). Failures are logged as warnings and never fail the task; undefined is returned then.
+ */
+export async function castReviewerVote(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    iterationId: number | undefined,
+    counts: ReviewStatusCounts,
+    dryRun: boolean
+): Promise<ReviewerVote | undefined> {
+    const vote = getVoteFromCounts(counts);
+    if (dryRun) {
+        console.log(`[Dry run] Would vote "${VOTE_LABELS[vote]}" on the pull request.`);
+        return vote;
+    }
+
+    try {
+        const identity = await getAuthenticatedIdentity(connection);
+        await setReviewerVote(connection, pullRequestId, identity.id!, vote);
+        console.log(`Voted "${VOTE_LABELS[vote]}" as ${identity.displayName ?? identity.id}.`);
+        if (iterationId !== undefined) {
+            await setLastVotedIteration(connection, pullRequestId, iterationId);
+        }
+        return vote;
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        tl.warning(`Could not cast the reviewer vote: ${errorMessage}`);
+        return undefined;
+    }
+}
@@ -0,0 +1,130 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PullRequestThread } from './azureDevOpsClient';
+import { BatchRunResult } from './batching';
+import { FindingStatus, STATUS_LABELS } from './findings';
+import { ThreadActivity, getStatusLabel } from './reviewOutcome';
+
+/**
+ * Markdown summary of a review run, attached to the pipeline run with ##vso[task.uploadsummary]
+ * so the results show up on the build result page without opening the log or the PR.
+ */
+
+export const RUN_SUMMARY_FILE_NAME = 'Copilot_Review_Summary.md';
+
+export type SummaryThread = {
+    id?: number;
+    label?: FindingStatus;
+    threadStatus?: string;
+    filePath?: string;
+    line?: number;
+};
+
+export type RunSummary = {
+    pullRequestId: number;
+    pullRequestUrl: string;
+    model?: string;
+    dryRun: boolean;
+    startTime: number;
+    timedOut: boolean;
+    reviewedFiles: number;
+    activity?: ThreadActivity;
+    threads: SummaryThread[];
+    touchedFiles: string[];
+    batches?: BatchRunResult[];
+    vote?: string;
+    result?: string;
+};
+
+export function toSummaryThread(thread: PullRequestThread): SummaryThread {
+    return {
+        id: thread.id,
+        label: getStatusLabel(thread.comments[0]?.content),
+        threadStatus: thread.status,
+        filePath: thread.threadContext?.filePath,
+        line: thread.threadContext?.rightFileStart?.line
+    };
+}
+
+export function formatDuration(milliseconds: number): string {
+    const totalSeconds = Math.round(milliseconds / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+export function escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function formatRunSummary(summary: RunSummary, endTime: number = Date.now()): string {
+    const lines: string[] = [
+        `### Copilot Code Review${summary.dryRun ? ' (dry run)' : ''}`,
+        '',
+        '| | |',
+        '| --- | --- |',
+        `| Pull request | [#${summary.pullRequestId}](${summary.pullRequestUrl}) |`,
+        `| Result | ${escapeTableCell(summary.result ?? 'Unknown')} |`,
+        `| Model | ${summary.model || 'Copilot CLI default'} |`,
+        `| Duration | ${formatDuration(endTime - summary.startTime)} |`,
+        `| Timed out | ${summary.timedOut ? '⏱️ Yes' : 'No'} |`,
+        `| Files reviewed | ${summary.reviewedFiles} |`
+    ];
+    if (summary.vote) {
+        lines.push(`| Reviewer vote | ${summary.vote} |`);
+    }
+
+    if (summary.activity) {
+        const activity = summary.activity;
+        lines.push(
+            '',
+            '#### Threads',
+            '',
+            '| Created | Updated | Resolved | Deleted comments |',
+            '| --- | --- | --- | --- |',
+            `| ${activity.created} | ${activity.updated} | ${activity.resolved} | ${activity.deleted} |`
+        );
+    }
+
+    if (summary.threads.length > 0) {
+        lines.push('', '#### New threads', '', '| Thread | Status label | Thread status | Location |', '| --- | --- | --- | --- |');
+        for (const thread of summary.threads) {
+            const id = thread.id !== undefined ? `#${thread.id}` : '-';
+            const label = thread.label ? STATUS_LABELS[thread.label] : 'No label';
+            const location = thread.filePath ? `${thread.filePath}${thread.line ? `:${thread.line}` : ''}` : 'PR-level';
+            lines.push(`| ${id} | ${label} | ${thread.threadStatus ?? '-'} | ${escapeTableCell(location)} |`);
+        }
+    }
+
+    if (summary.touchedFiles.length > 0) {
+        lines.push('', '#### Files with Copilot comments', '');
+        lines.push(...summary.touchedFiles.map(filePath => `- \`${filePath}\``));
+    }
+
+    if (summary.batches && summary.batches.length > 0) {
+        lines.push('', '#### Batches', '', '| Batch | Files | Result |', '| --- | --- | --- |');
+        for (const result of summary.batches) {
+            const outcome = result.succeeded ? '✅ Completed' : `❌ ${escapeTableCell(result.error ?? 'Failed')}`;
+            lines.push(`| ${result.batch.index}/${result.batch.count} | ${result.batch.files.length} | ${outcome} |`);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes the summary next to the other review files and attaches it to the pipeline run.
+ * Failures are logged as warnings and never fail the task.
+ */
+export function publishRunSummary(summary: RunSummary, directory: string, fileName: string = RUN_SUMMARY_FILE_NAME): void {
+    try {
+        const summaryFile = path.join(directory, fileName);
+        fs.writeFileSync(summaryFile, formatRunSummary(summary), 'utf8');
+        tl.uploadSummary(summaryFile);
+        console.log(`Run summary attached: ${summaryFile}`);
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        tl.warning(`Could not attach the run summary: ${errorMessage}`);
+    }
+}
@@ -8,7 +8,9 @@
     Supports both general PR-level comments and file-specific inline comments.
 
 .PARAMETER Token
-    Required. Authentication token for Azure DevOps. Can be a PAT or OAuth token.
+    Optional. Authentication token for Azure DevOps. Can be a PAT or OAuth token.
+    Defaults to the AZUREDEVOPS_TOKEN environment variable. Prefer the environment variable: a token passed
+    on the command line of a new process is visible to other processes on the machine.
 
 .PARAMETER AuthType
     Optional. The type of authentication to use. Valid values: 'Basic' (for PAT) or 'Bearer' (for OAuth/System.AccessToken).
@@ -51,24 +53,30 @@
 .PARAMETER IterationId
     Optional. Pull request iteration ID for inline comments. Helps anchor the comment to the correct diff version.
 
+.PARAMETER Properties
+    Optional. Thread properties to set on a new thread (e.g., @{ 'Fastronome.CopilotReview' = 'true' }).
+    Used to identify the threads created by the Copilot review. Ignored when replying to a thread.
+
 .EXAMPLE
-    .\Add-AzureDevOpsPRComment.ps1 -Token "your-pat" -CollectionUri "https://dev.azure.com/myorg" -Project "myproject" -Repository "myrepo" -Id 123 -Comment "This looks good!"
-    Creates a new comment thread on pull request #123 using PAT authentication.
+    $env:AZUREDEVOPS_TOKEN = 'your-pat'
+    .\Add-AzureDevOpsPRComment.ps1 -CollectionUri "https://dev.azure.com/myorg" -Project "myproject" -Repository "myrepo" -Id 123 -Comment "This looks good!"
+    Creates a new comment thread on pull request #123 using PAT authentication from the environment.
 
 .EXAMPLE
-    .\Add-AzureDevOpsPRComment.ps1 -Token "oauth-token" -AuthType "Bearer" -CollectionUri "https://dev.azure.com/myorg" -Project "myproject" -Repository "myrepo" -Id 123 -Comment "This looks good!"
+    $env:AZUREDEVOPS_TOKEN = $env:SYSTEM_ACCESSTOKEN
+    .\Add-AzureDevOpsPRComment.ps1 -AuthType "Bearer" -CollectionUri "https://dev.azure.com/myorg" -Project "myproject" -Repository "myrepo" -Id 123 -Comment "This looks good!"
     Creates a new comment thread using OAuth/System.AccessToken authentication.
 
 .EXAMPLE
-    .\Add-AzureDevOpsPRComment.ps1 -Token "your-pat" -CollectionUri "https://dev.azure.com/myorg" -Project "myproject" -Repository "myrepo" -Id 123 -Comment "I agree" -ThreadId 456
+    .\Add-AzureDevOpsPRComment.ps1 -CollectionUri "https://dev.azure.com/myorg" -Project "myproject" -Repository "myrepo" -Id 123 -Comment "I agree" -ThreadId 456
     Replies to an existing thread #456 on pull request #123.
 
 .EXAMPLE
-    .\Add-AzureDevOpsPRComment.ps1 -Token "your-pat" -CollectionUri "https://dev.azure.com/myorg" -Project "myproject" -Repository "myrepo" -Id 123 -Comment "Consider async" -FilePath "/src/Program.cs" -StartLine 42
+    .\Add-AzureDevOpsPRComment.ps1 -CollectionUri "https://dev.azure.com/myorg" -Project "myproject" -Repository "myrepo" -Id 123 -Comment "Consider async" -FilePath "/src/Program.cs" -StartLine 42
     Creates an inline comment on line 42 of Program.cs.
 
 .EXAMPLE
-    .\Add-AzureDevOpsPRComment.ps1 -Token "your-pat" -CollectionUri "https://dev.azure.com/myorg" -Project "myproject" -Repository "myrepo" -Id 123 -Comment "Refactor this" -FilePath "/src/Program.cs" -StartLine 42 -EndLine 50 -IterationId 3
+    .\Add-AzureDevOpsPRComment.ps1 -CollectionUri "https://dev.azure.com/myorg" -Project "myproject" -Repository "myrepo" -Id 123 -Comment "Refactor this" -FilePath "/src/Program.cs" -StartLine 42 -EndLine 50 -IterationId 3
     Creates an inline comment spanning lines 42-50, anchored to iteration 3 of the PR.
 
 .NOTES
@@ -79,13 +87,15 @@
     If an inline comment fails (e.g., line no longer exists in the diff), the script will
     automatically fall back to posting a generic PR comment with the file path and line
     information appended to the comment text.
+
+    Throttled (429) and transient failures are retried by Invoke-AzureDevOpsRestMethod.ps1, which must be
+    in the same directory.
 #>
 
 [CmdletBinding()]
 param(
-    [Parameter(Mandatory = $true, HelpMessage = "Authentication token for Azure DevOps (PAT or OAuth token)")]
-    [ValidateNotNullOrEmpty()]
-    [string]$Token,
+    [Parameter(Mandatory = $false, HelpMessage = "Authentication token for Azure DevOps (PAT or OAuth token); defaults to AZUREDEVOPS_TOKEN")]
+    [string]$Token = ${env:AZUREDEVOPS_TOKEN},
 
     [Parameter(Mandatory = $false, HelpMessage = "Authentication type: 'Basic' for PAT, 'Bearer' for OAuth")]
     [ValidateSet("Basic", "Bearer")]
@@ -128,7 +138,10 @@ param(
     [int]$EndLine,
 
     [Parameter(Mandatory = $false, HelpMessage = "Pull request iteration ID for inline comments")]
-    [int]$IterationId
+    [int]$IterationId,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Thread properties to set on a new thread")]
+    [hashtable]$Properties
 )
 
 #region Helper Functions
@@ -162,20 +175,19 @@ function Invoke-AzureDevOpsApi {
         [object]$Body = $null
     )
     
+    # Throttled (429) and transient failures are retried with exponential backoff by the shared helper
     try {
         $params = @{
-            Uri         = $Uri
-            Headers     = $Headers
-            Method      = $Method
-            ErrorAction = "Stop"
+            Uri     = $Uri
+            Headers = $Headers
+            Method  = $Method
         }
         
         if ($null -ne $Body) {
             $params.Body = $Body | ConvertTo-Json -Depth 10
         }
         
-        $response = Invoke-RestMethod @params
-        return $response
+        return & "$PSScriptRoot\Invoke-AzureDevOpsRestMethod.ps1" @params
     }
     catch {
         $statusCode = $null
@@ -241,10 +253,32 @@ function Format-AzureDevOpsFilePath {
     return $normalized
 }
 
+function ConvertTo-PropertyCollection {
+    param([hashtable]$Values)
+
+    # Thread properties are sent as a property collection: each value carries its .NET type
+    $collection = @{}
+    foreach ($key in $Values.Keys) {
+        $value = $Values[$key]
+        $type = if ($value -is [int]) { "System.Int32" } else { "System.String" }
+        $collection[$key] = @{
+            '$type'  = $type
+            '$value' = if ($value -is [int]) { $value } else { [string]$value }
+        }
+    }
+
+    return $collection
+}
+
 #endregion
 
 #region Main Logic
 
+if ([string]::IsNullOrEmpty($Token)) {
+    Write-Error "No Azure DevOps token: pass -Token or set the AZUREDEVOPS_TOKEN environment variable."
+    exit 1
+}
+
 $headers = Get-AuthorizationHeader -Token $Token -AuthType $AuthType
 $baseUrl = "$CollectionUri/$Project/_apis/git/repositories/$Repository/pullrequests/$Id"
 $apiVersion = "api-version=7.1"
@@ -313,6 +347,10 @@ else {
         status   = Get-ThreadStatusValue -StatusName $Status
     }
     
+    if ($Properties -and $Properties.Count -gt 0) {
+        $body.properties = ConvertTo-PropertyCollection -Values $Properties
+    }
+    
     # Add threadContext for inline comments
     if ($isInlineComment) {
         $normalizedPath = Format-AzureDevOpsFilePath -Path $FilePath
@@ -387,6 +425,9 @@ else {
             )
             status   = Get-ThreadStatusValue -StatusName $Status
         }
+        if ($body.properties) {
+            $fallbackBody.properties = $body.properties
+        }
         
         Write-Host "Posting generic comment with file/line information..." -ForegroundColor Yellow
         $result = Invoke-AzureDevOpsApi -Uri $threadsUrl -Headers $headers -Method "Post" -Body $fallbackBody
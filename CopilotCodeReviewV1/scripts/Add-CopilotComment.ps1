@@ -24,6 +24,10 @@
 .PARAMETER EndLine
     Optional. Ending line number for inline comment. Defaults to StartLine if not provided.
 
+.PARAMETER ThreadId
+    Optional. Existing Copilot thread to reply to (conversation mode). When provided, the comment is
+    posted as a reply and the Status and file parameters are ignored.
+
 .EXAMPLE
     .\Add-CopilotComment.ps1 -Comment "This looks good!" -Status 'Closed'
     Creates a new general comment thread with closed status.
@@ -36,6 +40,10 @@
     .\Add-CopilotComment.ps1 -Comment "This block needs refactoring" -Status 'Active' -FilePath '/src/Program.cs' -StartLine 42 -EndLine 50
     Creates an inline comment spanning lines 42-50 of the specified file.
 
+.EXAMPLE
+    .\Add-CopilotComment.ps1 -ThreadId 123 -Comment "Thanks for the explanation, that makes sense."
+    Replies to thread #123.
+
 .NOTES
     Author: Fastronome
     Date: December 2025
@@ -49,6 +57,16 @@
     - REPOSITORY: Repository name
     - PRID: Pull request ID
     - ITERATION_ID: (Optional) PR iteration ID for inline comments
+    - COPILOT_REVIEW_RUN_ID: (Optional) Build ID stored as a thread property
+    - COPILOT_REVIEW_MODEL: (Optional) Copilot model stored as a thread property
+
+    - COPILOT_THREADS_FILE: (Optional) Existing Copilot threads with their fingerprints, written by the task
+    - COPILOT_DUPLICATE_COMMENTS: (Optional) 'skip' (default), 'reply' or 'post' for comments that
+      duplicate an existing Copilot thread
+
+    Every new thread gets the 'Fastronome.CopilotReview' thread property, which the task uses to
+    recognize Copilot threads in later runs regardless of the comment text, and its fingerprint
+    (see Get-CopilotCommentFingerprint.ps1) for duplicate detection.
 #>
 
 [CmdletBinding()]
@@ -68,7 +86,10 @@ param(
     [int]$StartLine,
 
     [Parameter(Mandatory = $false, HelpMessage = "Ending line number for inline comment (defaults to StartLine)")]
-    [int]$EndLine
+    [int]$EndLine,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Existing thread ID to reply to")]
+    [int]$ThreadId
 )
 
 $scriptDir = Split-Path -Parent $MyInvocation.MyCommand.Path
@@ -147,6 +168,19 @@ function Get-InferredThreadStatus {
     return 'Active'
 }
 
+if ($ThreadId -gt 0) {
+    Write-Host "Replying to thread #$ThreadId" -ForegroundColor DarkGray
+    & "$scriptDir\Add-AzureDevOpsPRComment.ps1" `
+        -AuthType ${env:AZUREDEVOPS_AUTH_TYPE} `
+        -CollectionUri ${env:AZUREDEVOPS_COLLECTION_URI} `
+        -Project ${env:PROJECT} `
+        -Repository ${env:REPOSITORY} `
+        -Id ${env:PRID} `
+        -Comment $Comment `
+        -ThreadId $ThreadId
+    return
+}
+
 if (($env:REVIEW_WHOLE_DIFF_AT_ONCE -ne 'true') -and $Comment.Trim() -match '^(?i:NO_COMMENT)$') {
     Write-Host "Skipping comment post for per-file NO_COMMENT response." -ForegroundColor DarkGray
     return
@@ -157,11 +191,43 @@ if (-not $PSBoundParameters.ContainsKey('Status')) {
     Write-Host "No -Status specified; inferred thread status: $Status" -ForegroundColor DarkGray
 }
 
+# Skip or reply to comments that repeat an existing Copilot thread
+$fingerprintParams = @{ Comment = $Comment }
+if ($FilePath) {
+    $fingerprintParams.FilePath = $FilePath
+    $fingerprintParams.StartLine = $StartLine
+    $fingerprintParams.EndLine = $EndLine
+}
+$fingerprint = & "$scriptDir\Get-CopilotCommentFingerprint.ps1" @fingerprintParams
+$duplicateMode = if (${env:COPILOT_DUPLICATE_COMMENTS}) { ${env:COPILOT_DUPLICATE_COMMENTS} } else { 'skip' }
+
+if ($duplicateMode -ne 'post' -and ${env:COPILOT_THREADS_FILE} -and (Test-Path -LiteralPath ${env:COPILOT_THREADS_FILE})) {
+    $existingThreads = (Get-Content -LiteralPath ${env:COPILOT_THREADS_FILE} -Raw -Encoding utf8 | ConvertFrom-Json).threads
+    $duplicate = $existingThreads | Where-Object { $_.fingerprint -eq $fingerprint } | Select-Object -First 1
+
+    if ($duplicate) {
+        if ($duplicateMode -eq 'reply') {
+            Write-Host "Duplicate of Copilot thread #$($duplicate.threadId) (fingerprint $fingerprint); posting as a reply instead of a new thread." -ForegroundColor Yellow
+            & "$scriptDir\Add-AzureDevOpsPRComment.ps1" `
+                -AuthType ${env:AZUREDEVOPS_AUTH_TYPE} `
+                -CollectionUri ${env:AZUREDEVOPS_COLLECTION_URI} `
+                -Project ${env:PROJECT} `
+                -Repository ${env:REPOSITORY} `
+                -Id ${env:PRID} `
+                -Comment $Comment `
+                -ThreadId $duplicate.threadId
+            return
+        }
+
+        Write-Host "Skipping duplicate comment: matches Copilot thread #$($duplicate.threadId) (fingerprint $fingerprint)." -ForegroundColor Yellow
+        return
+    }
+}
+
 Write-Host "Posting comment with thread status: $Status" -ForegroundColor DarkGray
 
 # Build the base parameters
 $params = @{
-    Token        = ${env:AZUREDEVOPS_TOKEN}
     AuthType     = ${env:AZUREDEVOPS_AUTH_TYPE}
     CollectionUri = ${env:AZUREDEVOPS_COLLECTION_URI}
     Project      = ${env:PROJECT}
@@ -171,6 +237,22 @@ $params = @{
     Status       = $Status
 }
 
+# Thread properties identifying the thread as created by the Copilot review
+$properties = @{
+    'Fastronome.CopilotReview'             = 'true'
+    'Fastronome.CopilotReview.Fingerprint' = $fingerprint
+}
+if (${env:COPILOT_REVIEW_RUN_ID}) {
+    $properties['Fastronome.CopilotReview.RunId'] = ${env:COPILOT_REVIEW_RUN_ID}
+}
+if (${env:COPILOT_REVIEW_MODEL}) {
+    $properties['Fastronome.CopilotReview.Model'] = ${env:COPILOT_REVIEW_MODEL}
+}
+if (${env:ITERATION_ID}) {
+    $properties['Fastronome.CopilotReview.IterationId'] = [int]${env:ITERATION_ID}
+}
+$params.Properties = $properties
+
 # Add inline comment parameters if file path is provided
 if ($FilePath) {
     $params.FilePath = $FilePath
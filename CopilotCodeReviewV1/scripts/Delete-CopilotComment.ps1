@@ -31,6 +31,9 @@
     - REPOSITORY: Repository name
     - PRID: Pull request ID
     
+    Throttled (429) and transient failures are retried by Invoke-AzureDevOpsRestMethod.ps1, which must be
+    in the same directory.
+
     This script fails silently by design. Errors are suppressed to avoid
     interrupting the Copilot review workflow.
     
@@ -100,8 +103,8 @@ try {
     $baseUrl = "$collectionUri/$project/_apis"
     $uri = "$baseUrl/git/repositories/$repository/pullrequests/$prId/threads/$ThreadId/comments/$CommentId`?api-version=7.1"
 
-    # Send DELETE request
-    $response = Invoke-RestMethod -Uri $uri -Headers $headers -Method Delete -ErrorAction Stop
+    # Send DELETE request (throttled and transient failures are retried)
+    $response = & "$PSScriptRoot\Invoke-AzureDevOpsRestMethod.ps1" -Uri $uri -Headers $headers -Method Delete
 
     # Log success (visible in pipeline logs but doesn't affect workflow)
     Write-Host "Comment #$CommentId in thread #$ThreadId deleted" -ForegroundColor Green
@@ -519,13 +519,12 @@ if ($Id -gt 0) {
         }
         
         # Filter to threads that were created by Copilot
-        # Match by: Build Service author OR comment contains [Generated by GitHub Copilot]
+        # Match by: Fastronome.CopilotReview thread property OR (threads created before the property
+        # was introduced) comment contains [Generated by GitHub Copilot]
         $copilotThreads = $commentThreads | Where-Object {
-            # Check if author is Build Service identity
-            ($_.comments[0].author.displayName -like "*Build Service*") -or
-            ($_.comments[0].author.uniqueName -like "*Build Service*") -or
-            # Check if comment contains Copilot tag
-            ($_.comments[0].content -like "*[Generated by GitHub Copilot]*")
+            ($_.properties -and $_.properties.'Fastronome.CopilotReview' -and
+                [string]$_.properties.'Fastronome.CopilotReview'.'$value' -eq 'true') -or
+            ([string]$_.comments[0].content).Contains('[Generated by GitHub Copilot]')
         }
         
         if ($copilotThreads -and $copilotThreads.Count -gt 0) {
@@ -0,0 +1,105 @@
+<#
+.SYNOPSIS
+    Computes the duplicate-detection fingerprint of a Copilot comment.
+
+.DESCRIPTION
+    Used by Add-CopilotComment.ps1 to recognize comments that repeat an existing Copilot thread.
+    The fingerprint is built from the normalized file path, the anchored code snippet (not the line
+    number) and the normalized comment text, so the same finding on moved code still matches.
+
+    Must produce the same value as computeFingerprint in duplicates.ts:
+    - Path: forward slashes, leading '/', lowercase (empty for PR-level comments)
+    - Snippet: the anchored lines with whitespace collapsed and blank lines removed
+    - Text: Copilot tag, fallback file/line lines and markdown characters (* _ ` # >) removed,
+      whitespace collapsed, lowercase
+    The first 16 hex characters of the SHA-256 hash of "path`nsnippet`ntext" are returned.
+
+.PARAMETER Comment
+    Required. The comment text.
+
+.PARAMETER FilePath
+    Optional. File path of an inline comment (e.g., '/src/MyProject/Program.cs').
+
+.PARAMETER StartLine
+    Optional. Starting line number of an inline comment.
+
+.PARAMETER EndLine
+    Optional. Ending line number of an inline comment. Defaults to StartLine if not provided.
+
+.PARAMETER RootPath
+    Optional. Directory the file path is relative to. Defaults to the script directory, which is the
+    working directory the task copies the scripts to.
+
+.EXAMPLE
+    .\Get-CopilotCommentFingerprint.ps1 -Comment "Consider using async here" -FilePath '/src/Program.cs' -StartLine 42
+    Returns the fingerprint of an inline comment on line 42. When that line is 'var data = client.GetData();',
+    the fingerprint is d9a74e085674b2e4, as in tests/duplicates.test.ts.
+
+.EXAMPLE
+    .\Get-CopilotCommentFingerprint.ps1 -Comment "Consider using async here"
+    Returns the fingerprint of a PR-level comment: 2ddd0b30ee24d1b7, as in tests/duplicates.test.ts.
+
+.NOTES
+    Author: Fastronome
+    Date: October 2026
+    Requires: PowerShell 5.1 or later
+#>
+
+[CmdletBinding()]
+param(
+    [Parameter(Mandatory = $true, HelpMessage = "Comment text")]
+    [string]$Comment,
+
+    [Parameter(Mandatory = $false, HelpMessage = "File path of an inline comment")]
+    [string]$FilePath,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Starting line number of an inline comment")]
+    [int]$StartLine,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Ending line number of an inline comment (defaults to StartLine)")]
+    [int]$EndLine,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Directory the file path is relative to")]
+    [string]$RootPath = (Split-Path -Parent $MyInvocation.MyCommand.Path)
+)
+
+$normalizedPath = ''
+$snippet = ''
+
+if ($FilePath) {
+    $normalizedPath = $FilePath.Trim() -replace '\\', '/'
+    if (-not $normalizedPath.StartsWith('/')) {
+        $normalizedPath = '/' + $normalizedPath
+    }
+    $normalizedPath = $normalizedPath.ToLowerInvariant()
+
+    $fullPath = Join-Path $RootPath ($FilePath.TrimStart('/', '\'))
+    if ($StartLine -gt 0 -and (Test-Path -LiteralPath $fullPath -PathType Leaf)) {
+        $effectiveEndLine = if ($EndLine -gt 0) { $EndLine } else { $StartLine }
+        $fileLines = [System.IO.File]::ReadAllText($fullPath) -split "\r?\n"
+        $snippetLines = @()
+        for ($i = $StartLine - 1; $i -lt [Math]::Min($effectiveEndLine, $fileLines.Count); $i++) {
+            $line = ($fileLines[$i] -replace '\s+', ' ').Trim()
+            if ($line) {
+                $snippetLines += $line
+            }
+        }
+        $snippet = $snippetLines -join "`n"
+    }
+}
+
+# Normalize the comment text
+$text = $Comment -creplace '_?\[Generated by GitHub Copilot\]_?', ''
+$textLines = $text -split "\r?\n" | Where-Object { $_ -cnotmatch '^\s*\*\*(File:\*\*.*|Lines? \d+(-\d+)?\*\*)\s*$' }
+$text = ($textLines -join "`n") -replace '[*_`#>]', ''
+$text = ($text -replace '\s+', ' ').Trim().ToLowerInvariant()
+
+$sha256 = [System.Security.Cryptography.SHA256]::Create()
+try {
+    $hash = $sha256.ComputeHash([System.Text.Encoding]::UTF8.GetBytes("$normalizedPath`n$snippet`n$text"))
+}
+finally {
+    $sha256.Dispose()
+}
+
+return ((($hash | ForEach-Object { $_.ToString('x2') }) -join '').Substring(0, 16))
@@ -0,0 +1,126 @@
+<#
+.SYNOPSIS
+    Calls the Azure DevOps REST API and retries throttled and transient failures.
+
+.DESCRIPTION
+    Used by Add-AzureDevOpsPRComment.ps1, Update-CopilotComment.ps1 and Delete-CopilotComment.ps1 for all
+    their REST calls. HTTP 429 and 503 are retried, waiting as long as the Retry-After header asks (at most
+    5 minutes) or with exponential backoff (2s, 4s, 8s, ... up to 60s). Other server errors (408, 500, 502,
+    504) and network failures are retried too, except for POST requests, which may already have been
+    processed. After the last attempt the error of Invoke-RestMethod is rethrown, so callers handle it as
+    before.
+
+.PARAMETER Uri
+    Required. The request URL.
+
+.PARAMETER Headers
+    Required. The request headers, including Authorization.
+
+.PARAMETER Method
+    Optional. The HTTP method. Defaults to Get.
+
+.PARAMETER Body
+    Optional. The JSON request body.
+
+.PARAMETER MaxAttempts
+    Optional. The number of attempts, including the first one. Defaults to 5.
+
+.EXAMPLE
+    $thread = & "$PSScriptRoot\Invoke-AzureDevOpsRestMethod.ps1" -Uri $threadUri -Headers $headers -Method Patch -Body '{"status":"fixed"}'
+    Resolves a thread, retrying when Azure DevOps throttles the request.
+
+.NOTES
+    Author: Fastronome
+    Date: October 2026
+    Requires: PowerShell 5.1 or later
+#>
+
+[CmdletBinding()]
+param(
+    [Parameter(Mandatory = $true, HelpMessage = "Request URL")]
+    [string]$Uri,
+
+    [Parameter(Mandatory = $true, HelpMessage = "Request headers")]
+    [hashtable]$Headers,
+
+    [Parameter(Mandatory = $false, HelpMessage = "HTTP method")]
+    [string]$Method = "Get",
+
+    [Parameter(Mandatory = $false, HelpMessage = "JSON request body")]
+    [string]$Body,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Number of attempts")]
+    [ValidateRange(1, 10)]
+    [int]$MaxAttempts = 5
+)
+
+function Test-RetryableFailure {
+    param(
+        [string]$Method,
+        [object]$StatusCode
+    )
+
+    # 429 and 503 mean the request was not processed; other failures are only retried when repeating is safe
+    if ($StatusCode -eq 429 -or $StatusCode -eq 503) {
+        return $true
+    }
+    if ($Method -eq "Post") {
+        return $false
+    }
+    return (-not $StatusCode) -or ($StatusCode -in @(408, 500, 502, 504))
+}
+
+function Get-RetryDelaySeconds {
+    param(
+        [object]$Response,
+        [int]$Attempt
+    )
+
+    # Honour Retry-After (seconds or an HTTP date) when the server sends it, otherwise back off exponentially
+    $retryAfter = $null
+    if ($Response -and $Response.Headers) {
+        $retryAfter = $Response.Headers.RetryAfter
+    }
+    if ($retryAfter -and $retryAfter.Delta) {
+        return [Math]::Min([int][Math]::Ceiling($retryAfter.Delta.TotalSeconds), 300)
+    }
+    if ($retryAfter -and $retryAfter.Date) {
+        $seconds = [Math]::Ceiling(($retryAfter.Date - [DateTimeOffset]::UtcNow).TotalSeconds)
+        return [Math]::Min([int][Math]::Max(0, $seconds), 300)
+    }
+    return [Math]::Min([int](2 * [Math]::Pow(2, $Attempt - 1)), 60)
+}
+
+$params = @{
+    Uri         = $Uri
+    Headers     = $Headers
+    Method      = $Method
+    ErrorAction = "Stop"
+}
+if (-not [string]::IsNullOrEmpty($Body)) {
+    $params.Body = $Body
+}
+
+for ($attempt = 1; ; $attempt++) {
+    try {
+        $response = Invoke-RestMethod @params
+        if ($attempt -gt 1) {
+            Write-Host "$Method $Uri succeeded on attempt $attempt."
+        }
+        return $response
+    }
+    catch {
+        $statusCode = $null
+        if ($_.Exception.Response) {
+            $statusCode = $_.Exception.Response.StatusCode.value__
+        }
+        if ($attempt -ge $MaxAttempts -or -not (Test-RetryableFailure -Method $Method -StatusCode $statusCode)) {
+            throw
+        }
+
+        $delay = Get-RetryDelaySeconds -Response $_.Exception.Response -Attempt $attempt
+        $failure = if ($statusCode) { "returned HTTP $statusCode" } else { "failed: $($_.Exception.Message)" }
+        Write-Host "$Method $Uri $failure (attempt $attempt of $MaxAttempts). Retrying in ${delay}s..."
+        Start-Sleep -Seconds $delay
+    }
+}
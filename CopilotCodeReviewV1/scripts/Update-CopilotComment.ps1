@@ -48,6 +48,9 @@
     - REPOSITORY: Repository name
     - PRID: Pull request ID
     
+    Throttled (429) and transient failures are retried by Invoke-AzureDevOpsRestMethod.ps1, which must be
+    in the same directory.
+
     This script fails silently by design. Errors are suppressed to avoid
     interrupting the Copilot review workflow.
 #>
@@ -145,7 +148,7 @@ try {
         $threadUri = "$baseUrl/git/repositories/$repository/pullrequests/$prId/threads/$ThreadId`?api-version=7.1"
         $threadBody = @{ status = $apiStatus } | ConvertTo-Json
 
-        $response = Invoke-RestMethod -Uri $threadUri -Headers $headers -Method Patch -Body $threadBody -ErrorAction Stop
+        $response = & "$PSScriptRoot\Invoke-AzureDevOpsRestMethod.ps1" -Uri $threadUri -Headers $headers -Method Patch -Body $threadBody
         Write-Host "Thread #$ThreadId status updated to '$Status'" -ForegroundColor Green
     }
 
@@ -154,7 +157,7 @@ try {
         $commentUri = "$baseUrl/git/repositories/$repository/pullrequests/$prId/threads/$ThreadId/comments/$CommentId`?api-version=7.1"
         $commentBody = @{ content = $Content } | ConvertTo-Json
 
-        $response = Invoke-RestMethod -Uri $commentUri -Headers $headers -Method Patch -Body $commentBody -ErrorAction Stop
+        $response = & "$PSScriptRoot\Invoke-AzureDevOpsRestMethod.ps1" -Uri $commentUri -Headers $headers -Method Patch -Body $commentBody
         Write-Host "Comment #$CommentId in thread #$ThreadId content updated" -ForegroundColor Green
     }
 }
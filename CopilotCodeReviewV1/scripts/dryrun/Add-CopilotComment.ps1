@@ -0,0 +1,129 @@
+<#
+.SYNOPSIS
+    Dry-run version of Add-CopilotComment.ps1 that records the comment instead of posting it.
+
+.DESCRIPTION
+    Copied to the working directory instead of Add-CopilotComment.ps1 when the task runs with
+    dryRun enabled. Accepts the same parameters and appends one JSON line per call to the dry-run
+    log. Nothing is written to the pull request. The pipeline task turns the log into a report.
+
+.PARAMETER Comment
+    Required. The comment text that would be posted.
+
+.PARAMETER Status
+    Optional. Status for the new thread: 'Active' or 'Closed'. When omitted, the task infers the
+    status from the comment's status label, like the real script.
+
+.PARAMETER FilePath
+    Optional. File path for an inline comment (e.g., '/src/MyProject/Program.cs').
+
+.PARAMETER StartLine
+    Optional. Starting line number for an inline comment.
+
+.PARAMETER EndLine
+    Optional. Ending line number for an inline comment. Defaults to StartLine if not provided.
+
+.PARAMETER ThreadId
+    Optional. Existing thread the reply would be posted to (conversation mode).
+
+.NOTES
+    Author: Fastronome
+    Date: October 2026
+    Requires: PowerShell 5.1 or later
+
+    Environment Variables Used:
+    - COPILOT_DRY_RUN_LOG: Path of the JSON lines log written by the dry-run scripts
+    - REVIEW_WHOLE_DIFF_AT_ONCE: 'true' in whole-diff mode (NO_COMMENT is only skipped in per-file mode)
+    - COPILOT_THREADS_FILE: (Optional) Existing Copilot threads with their fingerprints, written by the task
+    - COPILOT_DUPLICATE_COMMENTS: (Optional) 'skip' (default), 'reply' or 'post' for duplicate comments;
+      a reply is recorded as an 'add' entry with the threadId of the existing thread
+#>
+
+[CmdletBinding()]
+param(
+    [Parameter(Mandatory = $true, HelpMessage = "Comment text to post")]
+    [ValidateNotNullOrEmpty()]
+    [string]$Comment,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Status for the new thread: Active or Closed")]
+    [ValidateSet("Active", "Closed")]
+    [string]$Status,
+
+    [Parameter(Mandatory = $false, HelpMessage = "File path for inline comment (e.g., '/src/MyProject/Program.cs')")]
+    [string]$FilePath,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Starting line number for inline comment")]
+    [int]$StartLine,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Ending line number for inline comment (defaults to StartLine)")]
+    [int]$EndLine,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Existing thread ID to reply to")]
+    [int]$ThreadId
+)
+
+if ($ThreadId -gt 0) {
+    $reply = [ordered]@{
+        action   = 'add'
+        source   = 'copilot'
+        comment  = $Comment
+        threadId = $ThreadId
+    }
+    Add-Content -Path ${env:COPILOT_DRY_RUN_LOG} -Value ($reply | ConvertTo-Json -Compress) -Encoding utf8
+    Write-Host "[Dry run] Recorded reply to thread #$ThreadId instead of posting it." -ForegroundColor DarkGray
+    return
+}
+
+if (($env:REVIEW_WHOLE_DIFF_AT_ONCE -ne 'true') -and $Comment.Trim() -match '^(?i:NO_COMMENT)$') {
+    Write-Host "Skipping comment post for per-file NO_COMMENT response." -ForegroundColor DarkGray
+    return
+}
+
+$scriptDir = Split-Path -Parent $MyInvocation.MyCommand.Path
+
+$fingerprintParams = @{ Comment = $Comment }
+if ($FilePath) {
+    $fingerprintParams.FilePath = $FilePath
+    $fingerprintParams.StartLine = $StartLine
+    $fingerprintParams.EndLine = $EndLine
+}
+$fingerprint = & "$scriptDir\Get-CopilotCommentFingerprint.ps1" @fingerprintParams
+$duplicateMode = if (${env:COPILOT_DUPLICATE_COMMENTS}) { ${env:COPILOT_DUPLICATE_COMMENTS} } else { 'skip' }
+$duplicate = $null
+
+if ($duplicateMode -ne 'post' -and ${env:COPILOT_THREADS_FILE} -and (Test-Path -LiteralPath ${env:COPILOT_THREADS_FILE})) {
+    $existingThreads = (Get-Content -LiteralPath ${env:COPILOT_THREADS_FILE} -Raw -Encoding utf8 | ConvertFrom-Json).threads
+    $duplicate = $existingThreads | Where-Object { $_.fingerprint -eq $fingerprint } | Select-Object -First 1
+
+    if ($duplicate -and $duplicateMode -ne 'reply') {
+        Write-Host "[Dry run] Skipping duplicate comment: matches Copilot thread #$($duplicate.threadId) (fingerprint $fingerprint)." -ForegroundColor Yellow
+        return
+    }
+}
+
+$entry = [ordered]@{
+    action  = 'add'
+    source  = 'copilot'
+    comment = $Comment
+}
+if ($duplicate) {
+    $entry.threadId = [int]$duplicate.threadId
+}
+if ($Status) {
+    $entry.status = $Status
+}
+if ($FilePath) {
+    $entry.filePath = $FilePath
+    if ($StartLine -gt 0) {
+        $entry.startLine = $StartLine
+        $entry.endLine = if ($EndLine -gt 0) { $EndLine } else { $StartLine }
+    }
+}
+
+Add-Content -Path ${env:COPILOT_DRY_RUN_LOG} -Value ($entry | ConvertTo-Json -Compress) -Encoding utf8
+
+$location = if ($FilePath) { "$FilePath (Lines $($entry.startLine)-$($entry.endLine))" } else { 'PR-level' }
+if ($duplicate) {
+    $location += " as a reply to duplicate Copilot thread #$($duplicate.threadId)"
+}
+Write-Host "[Dry run] Recorded comment on $location instead of posting it." -ForegroundColor DarkGray
@@ -0,0 +1,45 @@
+<#
+.SYNOPSIS
+    Dry-run version of Delete-CopilotComment.ps1 that records the deletion instead of performing it.
+
+.DESCRIPTION
+    Copied to the working directory instead of Delete-CopilotComment.ps1 when the task runs with
+    dryRun enabled. Accepts the same parameters and appends one JSON line per call to the dry-run
+    log. Nothing is written to the pull request.
+
+.PARAMETER ThreadId
+    Required. The ID of the thread containing the comment.
+
+.PARAMETER CommentId
+    Required. The ID of the comment that would be deleted.
+
+.NOTES
+    Author: Fastronome
+    Date: October 2026
+    Requires: PowerShell 5.1 or later
+
+    Environment Variables Used:
+    - COPILOT_DRY_RUN_LOG: Path of the JSON lines log written by the dry-run scripts
+#>
+
+[CmdletBinding()]
+param(
+    [Parameter(Mandatory = $true, HelpMessage = "Thread ID containing the comment")]
+    [ValidateRange(1, [int]::MaxValue)]
+    [int]$ThreadId,
+
+    [Parameter(Mandatory = $true, HelpMessage = "Comment ID to delete")]
+    [ValidateRange(1, [int]::MaxValue)]
+    [int]$CommentId
+)
+
+$entry = [ordered]@{
+    action    = 'delete'
+    source    = 'copilot'
+    threadId  = $ThreadId
+    commentId = $CommentId
+}
+
+Add-Content -Path ${env:COPILOT_DRY_RUN_LOG} -Value ($entry | ConvertTo-Json -Compress) -Encoding utf8
+Write-Host "[Dry run] Recorded deletion of comment #$CommentId in thread #$ThreadId instead of performing it." -ForegroundColor DarkGray
+exit 0
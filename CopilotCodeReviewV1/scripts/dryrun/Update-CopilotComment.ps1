@@ -0,0 +1,73 @@
+<#
+.SYNOPSIS
+    Dry-run version of Update-CopilotComment.ps1 that records the update instead of applying it.
+
+.DESCRIPTION
+    Copied to the working directory instead of Update-CopilotComment.ps1 when the task runs with
+    dryRun enabled. Accepts the same parameters and appends one JSON line per call to the dry-run
+    log. Nothing is written to the pull request.
+
+.PARAMETER ThreadId
+    Required. The ID of the thread that would be updated.
+
+.PARAMETER Status
+    Optional. The new status for the thread. Defaults to 'Fixed' when nothing else is updated.
+
+.PARAMETER CommentId
+    Optional. The ID of the comment whose content would be updated.
+
+.PARAMETER Content
+    Optional. New content for the comment. Requires CommentId to be specified.
+
+.NOTES
+    Author: Fastronome
+    Date: October 2026
+    Requires: PowerShell 5.1 or later
+
+    Environment Variables Used:
+    - COPILOT_DRY_RUN_LOG: Path of the JSON lines log written by the dry-run scripts
+#>
+
+[CmdletBinding()]
+param(
+    [Parameter(Mandatory = $true, HelpMessage = "Thread ID to update")]
+    [ValidateRange(1, [int]::MaxValue)]
+    [int]$ThreadId,
+
+    [Parameter(Mandatory = $false, HelpMessage = "New status for the thread")]
+    [ValidateSet("Active", "Fixed", "WontFix", "Closed", "Pending")]
+    [string]$Status,
+
+    [Parameter(Mandatory = $false, HelpMessage = "Comment ID to update (for content updates)")]
+    [int]$CommentId,
+
+    [Parameter(Mandatory = $false, HelpMessage = "New content for the comment")]
+    [string]$Content
+)
+
+if ([string]::IsNullOrEmpty($Status) -and [string]::IsNullOrEmpty($Content)) {
+    # Default to Fixed status if nothing specified, like the real script
+    $Status = "Fixed"
+}
+
+if (-not [string]::IsNullOrEmpty($Content) -and $CommentId -le 0) {
+    Write-Host "Note: Content update requires CommentId parameter" -ForegroundColor DarkGray
+    exit 0
+}
+
+$entry = [ordered]@{
+    action   = 'update'
+    source   = 'copilot'
+    threadId = $ThreadId
+}
+if ($Status) {
+    $entry.status = $Status
+}
+if ($CommentId -gt 0) {
+    $entry.commentId = $CommentId
+    $entry.comment = $Content
+}
+
+Add-Content -Path ${env:COPILOT_DRY_RUN_LOG} -Value ($entry | ConvertTo-Json -Compress) -Encoding utf8
+Write-Host "[Dry run] Recorded update of thread #$ThreadId instead of applying it." -ForegroundColor DarkGray
+exit 0
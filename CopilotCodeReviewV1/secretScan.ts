@@ -0,0 +1,295 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'fs';
+import { AzureDevOpsConnection, getFileContent } from './azureDevOpsClient';
+import { Finding } from './findings';
+import { IterationContext } from './prDetails';
+
+/**
+ * Pre-review secret scan (scanSecrets / failOnSecrets). The lines added in the iteration's changed files
+ * are matched against built-in rules for well-known credential formats plus the rules of an optional
+ * rules file (see scripts/secret-rules.schema.json). Generic rules also require a minimum Shannon entropy,
+ * so placeholders like 'changeme' are not reported. Hits are posted as ❌ Not Passed inline threads with
+ * the secret value masked, and listed in the prompt so Copilot does not report them again.
+ */
+
+export type SecretRule = {
+    id: string;
+    description: string;
+    pattern: RegExp;
+    // Capture group holding the secret value; the whole match when not set
+    secretGroup?: number;
+    minEntropy?: number;
+};
+
+export type SecretRules = {
+    rules: SecretRule[];
+    // Lines matching any of these patterns are not reported
+    allow: RegExp[];
+};
+
+export type SecretFinding = {
+    filePath: string;
+    line: number;
+    ruleId: string;
+    description: string;
+    maskedValue: string;
+};
+
+// Files larger than this are not scanned (generated data, bundles)
+const MAX_SCANNED_FILE_SIZE = 1024 * 1024;
+
+// Shorter values are masked completely, so no part of a short password ends up in a comment
+const MIN_REVEALED_LENGTH = 20;
+
+export const BUILT_IN_SECRET_RULES: SecretRule[] = [
+    { id: 'private-key', description: 'Private key', pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/ },
+    { id: 'aws-access-key-id', description: 'AWS access key ID', pattern: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/, secretGroup: 1 },
+    { id: 'aws-secret-access-key', description: 'AWS secret access key', pattern: /aws.{0,20}?(?:secret|key).{0,20}?['"]([0-9a-zA-Z/+]{40})['"]/i, secretGroup: 1, minEntropy: 4 },
+    { id: 'github-token', description: 'GitHub token', pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{82})\b/, secretGroup: 1 },
+    { id: 'azure-storage-key', description: 'Azure storage account key', pattern: /AccountKey=([A-Za-z0-9+/]{86}==)/i, secretGroup: 1 },
+    { id: 'azure-sas-token', description: 'Azure shared access signature', pattern: /[?&]sig=([A-Za-z0-9%+/=]{40,})/, secretGroup: 1 },
+    { id: 'azure-service-bus-key', description: 'Azure shared access key', pattern: /SharedAccessKey=([A-Za-z0-9+/]{42,44}=?)/i, secretGroup: 1 },
+    { id: 'connection-string-password', description: 'Password in a connection string', pattern: /\b(?:Password|Pwd)\s*=\s*([^;'"\s]{6,})/i, secretGroup: 1, minEntropy: 2.5 },
+    { id: 'slack-token', description: 'Slack token', pattern: /\b(xox[baprs]-[A-Za-z0-9-]{10,})\b/, secretGroup: 1 },
+    { id: 'google-api-key', description: 'Google API key', pattern: /\b(AIza[0-9A-Za-z_-]{35})\b/, secretGroup: 1 },
+    { id: 'stripe-key', description: 'Stripe secret key', pattern: /\b((?:sk|rk)_live_[0-9a-zA-Z]{24,})\b/, secretGroup: 1 },
+    { id: 'jwt', description: 'JSON web token', pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})\b/, secretGroup: 1 },
+    {
+        id: 'generic-secret',
+        description: 'Hard-coded secret',
+        pattern: /(?:secret|token|passw(?:or)?d|api[_-]?key|access[_-]?key|client[_-]?secret)[\w.-]*['"]?\s*[:=]\s*['"]([^'"\s]{16,})['"]/i,
+        secretGroup: 1,
+        minEntropy: 3.7
+    }
+];
+
+// References to variables or templates rather than literal values
+const BUILT_IN_ALLOW = [/^(?:\$\(|\$\{|%|<|\{\{|#\{)/];
+
+type RulesFileRule = {
+    id?: unknown;
+    description?: unknown;
+    pattern?: unknown;
+    caseInsensitive?: unknown;
+    secretGroup?: unknown;
+    minEntropy?: unknown;
+};
+
+function compilePattern(pattern: string, flags: string, name: string, errors: string[]): RegExp | undefined {
+    try {
+        return new RegExp(pattern, flags);
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        errors.push(`${name} is not a valid regular expression: ${errorMessage}`);
+        return undefined;
+    }
+}
+
+/**
+ * Returns the built-in rules plus the rules of the rules file, if any. A rule with the id of a built-in
+ * rule replaces it. Invalid rules fail with the list of all errors.
+ */
+export function loadSecretRules(rulesFile?: string): SecretRules {
+    const secretRules: SecretRules = { rules: [...BUILT_IN_SECRET_RULES], allow: [] };
+    if (!rulesFile) {
+        return secretRules;
+    }
+
+    let document: { rules?: unknown; allow?: unknown };
+    try {
+        document = JSON.parse(fs.readFileSync(rulesFile, 'utf8'));
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        throw new Error(`Secret scan rules file ${rulesFile} could not be read: ${errorMessage}`);
+    }
+
+    const errors: string[] = [];
+    const rules = document?.rules ?? [];
+    const allow = document?.allow ?? [];
+    if (!Array.isArray(rules)) {
+        errors.push('rules must be a list');
+    }
+    if (!Array.isArray(allow) || !allow.every(entry => typeof entry === 'string' && entry)) {
+        errors.push('allow must be a list of regular expressions');
+    }
+
+    (Array.isArray(rules) ? rules : []).forEach((entry: RulesFileRule, index: number) => {
+        const name = `rules[${index}]`;
+        if (typeof entry?.id !== 'string' || !entry.id.trim() || typeof entry.pattern !== 'string' || !entry.pattern) {
+            errors.push(`${name} must have an id and a pattern`);
+            return;
+        }
+        if (entry.secretGroup !== undefined && !(Number.isInteger(entry.secretGroup) && (entry.secretGroup as number) >= 0)) {
+            errors.push(`${name}.secretGroup must be a capture group number`);
+        }
+        if (entry.minEntropy !== undefined && typeof entry.minEntropy !== 'number') {
+            errors.push(`${name}.minEntropy must be a number`);
+        }
+        const pattern = compilePattern(entry.pattern, entry.caseInsensitive === true ? 'i' : '', `${name}.pattern`, errors);
+        if (!pattern) {
+            return;
+        }
+
+        const rule: SecretRule = {
+            id: entry.id.trim(),
+            description: typeof entry.description === 'string' && entry.description.trim() ? entry.description.trim() : entry.id.trim(),
+            pattern,
+            secretGroup: entry.secretGroup as number | undefined,
+            minEntropy: entry.minEntropy as number | undefined
+        };
+        secretRules.rules = secretRules.rules.filter(existing => existing.id !== rule.id);
+        secretRules.rules.push(rule);
+    });
+
+    if (Array.isArray(allow)) {
+        allow.forEach((entry: unknown, index: number) => {
+            const pattern = typeof entry === 'string' ? compilePattern(entry, '', `allow[${index}]`, errors) : undefined;
+            if (pattern) {
+                secretRules.allow.push(pattern);
+            }
+        });
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid secret scan rules file ${rulesFile}:\n- ${errors.join('\n- ')}`);
+    }
+    return secretRules;
+}
+
+/**
+ * Shannon entropy in bits per character.
+ */
+export function getShannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const probability = count / value.length;
+        entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+}
+
+/**
+ * Keeps the first four characters of long values of fixed-format rules (key prefixes such as 'AKIA') so
+ * the finding can be located, masks the rest. Values of rules with minEntropy (passwords, generic
+ * secrets) have no such prefix and are masked completely.
+ */
+export function maskSecret(value: string, rule: SecretRule): string {
+    return value.length >= MIN_REVEALED_LENGTH && rule.minEntropy === undefined ? `${value.substring(0, 4)}********` : '********';
+}
+
+/**
+ * 1-based numbers of the lines in the new content that do not occur in the old content. Lines are matched
+ * by count rather than position, so moved lines are not reported as added.
+ */
+export function getAddedLines(oldContent: string, newContent: string): number[] {
+    const oldLines = new Map<string, number>();
+    for (const line of oldContent.split(/\r?\n/)) {
+        oldLines.set(line, (oldLines.get(line) ?? 0) + 1);
+    }
+
+    const added: number[] = [];
+    newContent.split(/\r?\n/).forEach((line, index) => {
+        const remaining = oldLines.get(line) ?? 0;
+        if (remaining > 0) {
+            oldLines.set(line, remaining - 1);
+        } else if (line.trim()) {
+            added.push(index + 1);
+        }
+    });
+    return added;
+}
+
+/**
+ * Matches the given lines of a file against the rules. One finding per line and rule.
+ */
+export function scanLines(filePath: string, content: string, lineNumbers: number[], secretRules: SecretRules): SecretFinding[] {
+    const lines = content.split(/\r?\n/);
+    const findings: SecretFinding[] = [];
+
+    for (const lineNumber of lineNumbers) {
+        const line = lines[lineNumber - 1] ?? '';
+        if (secretRules.allow.some(pattern => pattern.test(line))) {
+            continue;
+        }
+
+        for (const rule of secretRules.rules) {
+            const match = rule.pattern.exec(line);
+            const value = match ? match[rule.secretGroup ?? 0] ?? match[0] : undefined;
+            if (!value || BUILT_IN_ALLOW.some(pattern => pattern.test(value))) {
+                continue;
+            }
+            if (rule.minEntropy !== undefined && getShannonEntropy(value) < rule.minEntropy) {
+                continue;
+            }
+            findings.push({ filePath, line: lineNumber, ruleId: rule.id, description: rule.description, maskedValue: maskSecret(value, rule) });
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * Scans the lines added in the changed files of the iteration. With an incremental review the lines are
+ * compared with the last reviewed iteration, otherwise with the merge base of the pull request.
+ * File contents are read through the API, so the scan does not depend on the checkout.
+ */
+export async function scanChangesForSecrets(
+    connection: AzureDevOpsConnection,
+    iterationContext: IterationContext,
+    secretRules: SecretRules
+): Promise<SecretFinding[]> {
+    const commitId = iterationContext.iteration.sourceRefCommit?.commitId;
+    const baseCommitId = iterationContext.compareToIteration?.sourceRefCommit?.commitId ??
+        iterationContext.iteration.commonRefCommit?.commitId;
+    if (!commitId) {
+        tl.warning('Secret scan skipped: the iteration has no source commit.');
+        return [];
+    }
+
+    const findings: SecretFinding[] = [];
+    for (const change of iterationContext.changes) {
+        const filePath = change.item?.path;
+        if (!filePath || change.changeType.includes('delete')) {
+            continue;
+        }
+
+        try {
+            const content = await getFileContent(connection, filePath, commitId);
+            if (content === undefined || content.length > MAX_SCANNED_FILE_SIZE || content.includes('\0')) {
+                continue;
+            }
+
+            const originalPath = change.originalPath ?? filePath;
+            const baseContent = baseCommitId && !change.changeType.includes('add')
+                ? await getFileContent(connection, originalPath, baseCommitId) ?? ''
+                : '';
+            findings.push(...scanLines(filePath, content, getAddedLines(baseContent, content), secretRules));
+        } catch (err: unknown) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            tl.warning(`Could not scan ${filePath} for secrets: ${errorMessage}`);
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * The finding posted for a secret: a ❌ Not Passed inline thread on the line, with the value masked.
+ */
+export function toSecretReviewFinding(secretFinding: SecretFinding): Finding {
+    return {
+        file: secretFinding.filePath,
+        startLine: secretFinding.line,
+        endLine: secretFinding.line,
+        severity: 'critical',
+        status: 'notPassed',
+        body: `**Possible secret:** ${secretFinding.description} (\`${secretFinding.maskedValue}\`, rule \`${secretFinding.ruleId}\`)\n\n` +
+            'Remove the value from the code and load it from a secret store or a secret pipeline variable instead. ' +
+            'The value is in the history of the source branch, so treat it as compromised and rotate it.'
+    };
+}
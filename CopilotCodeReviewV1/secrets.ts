@@ -0,0 +1,98 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+
+/**
+ * Keeps the GitHub and Azure DevOps tokens out of logs and away from the model's shell tools.
+ * Tokens are registered with the agent's log masking, scrubbed from commands the task logs itself, and the
+ * Copilot process gets an allowlisted environment instead of a copy of the agent's.
+ */
+
+export const REDACTED = '***';
+
+/**
+ * Variables passed to the Copilot process: what pwsh, Node.js and the Copilot CLI need to run on Windows,
+ * Linux and macOS, proxy settings, and the variables the comment scripts read.
+ */
+const ALLOWED_VARIABLES = [
+    // System
+    'PATH', 'PATHEXT', 'HOME', 'USER', 'USERNAME', 'USERPROFILE', 'HOMEDRIVE', 'HOMEPATH', 'APPDATA', 'LOCALAPPDATA',
+    'PROGRAMDATA', 'PROGRAMFILES', 'PROGRAMFILES(X86)', 'PROGRAMW6432', 'COMMONPROGRAMFILES', 'SYSTEMROOT', 'SYSTEMDRIVE',
+    'WINDIR', 'COMSPEC', 'OS', 'PROCESSOR_ARCHITECTURE', 'NUMBER_OF_PROCESSORS', 'TEMP', 'TMP', 'TMPDIR', 'SHELL',
+    'LANG', 'LANGUAGE', 'TERM', 'TZ', 'PSMODULEPATH',
+    // Network and certificates
+    'HTTP_PROXY', 'HTTPS_PROXY', 'NO_PROXY', 'ALL_PROXY', 'NODE_EXTRA_CA_CERTS', 'SSL_CERT_FILE', 'SSL_CERT_DIR',
+    // Copilot CLI authentication
+    'GH_TOKEN', 'GH_HOST',
+    // Comment scripts
+    'AZUREDEVOPS_AUTH_TYPE', 'AZUREDEVOPS_COLLECTION_URI', 'PROJECT', 'REPOSITORY', 'PRID', 'ITERATION_ID',
+    'REVIEW_WHOLE_DIFF_AT_ONCE'
+];
+
+const ALLOWED_PREFIXES = ['COPILOT_', 'XDG_', 'LC_', 'DOTNET_', 'POWERSHELL_'];
+
+const AZURE_DEVOPS_TOKEN_VARIABLE = 'AZUREDEVOPS_TOKEN';
+
+export type CopilotEnvironmentOptions = {
+    // The comment scripts call the Azure DevOps REST API with this token; not needed when they only record (dry run)
+    includeAzureDevOpsToken: boolean;
+    // Extra variable names from the copilotEnvironmentVariables input
+    additionalVariables?: string[];
+};
+
+/**
+ * Registers the values with the agent so they are masked in the task log, including in the output of
+ * child processes. Empty values are ignored.
+ */
+export function registerSecrets(...values: (string | undefined)[]): void {
+    for (const value of values) {
+        if (value) {
+            tl.setSecret(value);
+        }
+    }
+}
+
+/**
+ * Replaces every occurrence of the secrets in the text. Used for command lines the task logs itself,
+ * so they stay masked when the log is read outside the agent (e.g. a local run).
+ */
+export function redactSecrets(text: string, secrets: (string | undefined)[]): string {
+    let redacted = text;
+    for (const secret of secrets) {
+        if (secret) {
+            redacted = redacted.split(secret).join(REDACTED);
+        }
+    }
+    return redacted;
+}
+
+export function parseEnvironmentVariableNames(input: string | undefined): string[] {
+    if (!input) {
+        return [];
+    }
+
+    return input
+        .split(/[\r\n,]+/)
+        .map(name => name.trim())
+        .filter(Boolean);
+}
+
+/**
+ * The environment of the Copilot process: the allowlisted variables of the source environment only.
+ * Names are compared case-insensitively, as environment variable names on Windows are.
+ */
+export function buildCopilotEnvironment(sourceEnv: NodeJS.ProcessEnv, options: CopilotEnvironmentOptions): NodeJS.ProcessEnv {
+    const allowed = new Set([...ALLOWED_VARIABLES, ...(options.additionalVariables ?? [])].map(name => name.toUpperCase()));
+    if (options.includeAzureDevOpsToken) {
+        allowed.add(AZURE_DEVOPS_TOKEN_VARIABLE);
+    } else {
+        allowed.delete(AZURE_DEVOPS_TOKEN_VARIABLE);
+    }
+
+    const env: NodeJS.ProcessEnv = {};
+    for (const [name, value] of Object.entries(sourceEnv)) {
+        const upperName = name.toUpperCase();
+        if (value !== undefined && (allowed.has(upperName) || ALLOWED_PREFIXES.some(prefix => upperName.startsWith(prefix)))) {
+            env[name] = value;
+        }
+    }
+    return env;
+}
@@ -0,0 +1,171 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import {
+    AzureDevOpsConnection,
+    GitPullRequestIteration,
+    PullRequestThread,
+    ThreadStatus,
+    addComment,
+    getFileContent,
+    updateThread
+} from './azureDevOpsClient';
+import { recordDryRunAction } from './dryRun';
+import { extractSnippet } from './duplicates';
+import { getCopilotThreads } from './prDetails';
+import { THREAD_ITERATION_PROPERTY } from './reviewState';
+
+/**
+ * Deterministic cleanup of Copilot threads whose code is gone (closeStaleThreads). An active inline
+ * Copilot thread is stale when its file no longer exists in the latest iteration (set to Closed), or
+ * when the lines it was anchored to in the iteration it was created on no longer appear in the latest
+ * version of the file (set to Fixed). Stale threads get a short reply explaining the status change.
+ */
+
+export type StaleThread = {
+    thread: PullRequestThread;
+    status: ThreadStatus;
+    reason: string;
+};
+
+/**
+ * The iteration a thread was created on: the IterationId thread property, the iteration context of the
+ * thread, or otherwise the last iteration pushed before the thread was published.
+ */
+function getThreadIteration(thread: PullRequestThread, iterations: GitPullRequestIteration[]): GitPullRequestIteration | undefined {
+    const iterationId = Number(
+        thread.properties?.[THREAD_ITERATION_PROPERTY]?.$value ??
+        thread.pullRequestThreadContext?.iterationContext?.secondComparingIteration
+    );
+    if (iterationId) {
+        return iterations.find(iteration => iteration.id === iterationId);
+    }
+
+    const publishedTime = thread.publishedDate ? Date.parse(thread.publishedDate) : NaN;
+    if (isNaN(publishedTime)) {
+        return undefined;
+    }
+    return iterations.filter(iteration => iteration.createdDate && Date.parse(iteration.createdDate) <= publishedTime).pop();
+}
+
+function containsSnippet(content: string, snippet: string): boolean {
+    return `\n${extractSnippet(content)}\n`.includes(`\n${snippet}\n`);
+}
+
+/**
+ * Returns the active Copilot threads whose anchored code no longer exists in the latest iteration.
+ * Threads that cannot be checked (no iteration information, original file not readable) are kept.
+ */
+export async function findStaleThreads(
+    connection: AzureDevOpsConnection,
+    threads: PullRequestThread[],
+    iterations: GitPullRequestIteration[]
+): Promise<StaleThread[]> {
+    const latestIteration = iterations[iterations.length - 1];
+    const latestCommit = latestIteration?.sourceRefCommit?.commitId;
+    if (!latestCommit) {
+        return [];
+    }
+
+    const contentCache = new Map<string, Promise<string | undefined>>();
+    const getContent = (filePath: string, commitId: string): Promise<string | undefined> => {
+        const key = `${commitId}:${filePath}`;
+        if (!contentCache.has(key)) {
+            contentCache.set(key, getFileContent(connection, filePath, commitId));
+        }
+        return contentCache.get(key)!;
+    };
+
+    const staleThreads: StaleThread[] = [];
+    const candidates = getCopilotThreads(threads).filter(thread => thread.status === 'active' && thread.threadContext?.filePath);
+
+    for (const thread of candidates) {
+        const context = thread.threadContext!;
+        const filePath = context.filePath!;
+
+        try {
+            const currentContent = await getContent(filePath, latestCommit);
+            if (currentContent === undefined) {
+                staleThreads.push({ thread, status: 'closed', reason: `\`${filePath}\` no longer exists in iteration #${latestIteration.id}` });
+                continue;
+            }
+
+            // Comments on deleted lines (left side) have no code left to compare
+            const startLine = context.rightFileStart?.line;
+            if (!startLine) {
+                continue;
+            }
+            const endLine = context.rightFileEnd?.line ?? startLine;
+
+            const originalCommit = getThreadIteration(thread, iterations)?.sourceRefCommit?.commitId;
+            if (!originalCommit || originalCommit === latestCommit) {
+                continue;
+            }
+            const originalContent = await getContent(filePath, originalCommit);
+            const snippet = originalContent !== undefined ? extractSnippet(originalContent, startLine, endLine) : '';
+            if (!snippet) {
+                continue;
+            }
+
+            if (!containsSnippet(currentContent, snippet)) {
+                const lines = startLine === endLine ? `line ${startLine}` : `lines ${startLine}-${endLine}`;
+                staleThreads.push({
+                    thread,
+                    status: 'fixed',
+                    reason: `the code this comment was anchored to (${lines}) no longer exists in iteration #${latestIteration.id}`
+                });
+            }
+        } catch (err: unknown) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            tl.warning(`Could not check thread #${thread.id} for stale code: ${errorMessage}`);
+        }
+    }
+
+    return staleThreads;
+}
+
+function formatStaleReply(staleThread: StaleThread): string {
+    const action = staleThread.status === 'closed' ? 'Closed' : 'Resolved';
+    return `${action} automatically by the Copilot code review: ${staleThread.reason}.`;
+}
+
+/**
+ * Replies to each stale thread and sets its new status. In dry-run mode the changes are recorded in the
+ * dry-run log instead. Returns the threads that were (or would have been) updated.
+ */
+export async function closeStaleThreads(
+    connection: AzureDevOpsConnection,
+    pullRequestId: number,
+    staleThreads: StaleThread[],
+    dryRunLog?: string
+): Promise<StaleThread[]> {
+    const closed: StaleThread[] = [];
+
+    for (const staleThread of staleThreads) {
+        const threadId = staleThread.thread.id;
+        const reply = formatStaleReply(staleThread);
+
+        if (dryRunLog) {
+            recordDryRunAction(dryRunLog, {
+                action: 'update',
+                source: 'task',
+                threadId,
+                status: staleThread.status === 'closed' ? 'Closed' : 'Fixed',
+                comment: reply
+            });
+            console.log(`[Dry run] Recorded stale thread #${threadId} (${staleThread.status}): ${staleThread.reason}`);
+            closed.push(staleThread);
+            continue;
+        }
+
+        try {
+            await addComment(connection, pullRequestId, threadId, reply);
+            await updateThread(connection, pullRequestId, threadId, { status: staleThread.status });
+            console.log(`Set stale thread #${threadId} to ${staleThread.status}: ${staleThread.reason}`);
+            closed.push(staleThread);
+        } catch (err: unknown) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            tl.warning(`Could not close stale thread #${threadId}: ${errorMessage}`);
+        }
+    }
+
+    return closed;
+}
@@ -0,0 +1,239 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as child_process from 'child_process';
+import { AzureDevOpsConnection, GitPullRequest, getActivePullRequests, getIterations, getPullRequestLabels } from './azureDevOpsClient';
+import { getLastReviewedIteration } from './reviewState';
+import { escapeTableCell, formatDuration } from './runSummary';
+
+/**
+ * Sweep mode (sweep input) for scheduled pipelines: the active pull requests of the repository that pass
+ * the sweep filters are checked out and reviewed one after another, and the run ends with a result table.
+ * Each pull request is checked out into its own git worktree in a temporary directory, so the agent's
+ * sources directory is never changed.
+ */
+
+export const SWEEP_SUMMARY_FILE_NAME = 'Copilot_Review_Sweep.md';
+
+export const DEFAULT_SWEEP_MAX_PULL_REQUESTS = 20;
+
+export type SweepFilters = {
+    // Branch name globs, matched without the refs/heads/ prefix; empty matches every target branch
+    targetBranches: string[];
+    includeDrafts: boolean;
+    // A pull request needs at least one of the labels; empty matches every pull request
+    labels: string[];
+    // Creator emails; empty matches every pull request
+    authors: string[];
+    onlyNewIterations: boolean;
+    maxPullRequests: number;
+};
+
+export type SweepCandidate = {
+    pullRequest: GitPullRequest;
+    skipReason?: string;
+};
+
+export type SweepResult = {
+    pullRequestId: number;
+    title: string;
+    // Undefined when the pull request was skipped by the sweep filters
+    result?: tl.TaskResult;
+    message: string;
+    durationMs: number;
+};
+
+const RESULT_LABELS: Record<number, string> = {
+    [tl.TaskResult.Succeeded]: '✅ Succeeded',
+    [tl.TaskResult.SucceededWithIssues]: '⚠️ Succeeded with issues',
+    [tl.TaskResult.Failed]: '❌ Failed'
+};
+
+/**
+ * Splits a comma- and/or newline-separated input (target branches, labels).
+ */
+export function parseSweepList(input: string | undefined): string[] {
+    if (!input) {
+        return [];
+    }
+
+    return input
+        .split(/[\r\n,]+/)
+        .map(part => part.trim())
+        .filter(Boolean);
+}
+
+function toBranchName(refName: string | undefined): string {
+    return (refName ?? '').replace(/^refs\/heads\//, '');
+}
+
+function matchesBranch(refName: string | undefined, patterns: string[]): boolean {
+    const branchName = toBranchName(refName);
+    return tl.match([branchName], patterns.map(toBranchName), undefined, { nocase: true }).length > 0;
+}
+
+/**
+ * The reason the pull request is left out of the sweep, or undefined when it is reviewed. The checks that
+ * need API calls (labels, last reviewed iteration) only run when the other filters pass; when they fail,
+ * the pull request is reviewed.
+ */
+async function getSkipReason(connection: AzureDevOpsConnection, pullRequest: GitPullRequest, filters: SweepFilters): Promise<string | undefined> {
+    if (pullRequest.isDraft && !filters.includeDrafts) {
+        return 'Draft';
+    }
+
+    if (filters.targetBranches.length > 0 && !matchesBranch(pullRequest.targetRefName, filters.targetBranches)) {
+        return `Target branch ${toBranchName(pullRequest.targetRefName)} not in sweepTargetBranches`;
+    }
+
+    if (filters.authors.length > 0) {
+        const creator = (pullRequest.createdBy?.uniqueName ?? '').toLowerCase();
+        if (!filters.authors.some(author => author.trim().toLowerCase() === creator)) {
+            return 'Author not in the authors list';
+        }
+    }
+
+    if (filters.labels.length > 0) {
+        try {
+            const labels = pullRequest.labels ?? await getPullRequestLabels(connection, pullRequest.pullRequestId);
+            const labelNames = new Set(labels.filter(label => label.active !== false).map(label => label.name.toLowerCase()));
+            if (!filters.labels.some(label => labelNames.has(label.toLowerCase()))) {
+                return 'No matching label';
+            }
+        } catch (err: unknown) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            tl.warning(`Could not read the labels of pull request #${pullRequest.pullRequestId}: ${errorMessage}`);
+        }
+    }
+
+    if (filters.onlyNewIterations) {
+        try {
+            const lastReviewedIteration = await getLastReviewedIteration(connection, pullRequest.pullRequestId);
+            const iterations = await getIterations(connection, pullRequest.pullRequestId);
+            const latestIterationId = iterations.length > 0 ? iterations[iterations.length - 1].id : undefined;
+            if (lastReviewedIteration !== undefined && latestIterationId !== undefined && lastReviewedIteration >= latestIterationId) {
+                return `No new iterations since the last Copilot review (#${lastReviewedIteration})`;
+            }
+        } catch (err: unknown) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            tl.warning(`Could not read the review state of pull request #${pullRequest.pullRequestId}: ${errorMessage}`);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Lists the active pull requests of the repository, oldest first, with the reason each skipped one is left
+ * out. At most maxPullRequests pull requests are selected for review.
+ */
+export async function selectSweepPullRequests(connection: AzureDevOpsConnection, filters: SweepFilters): Promise<SweepCandidate[]> {
+    const pullRequests = (await getActivePullRequests(connection)).sort((a, b) => a.pullRequestId - b.pullRequestId);
+    const candidates: SweepCandidate[] = [];
+    let selected = 0;
+
+    for (const pullRequest of pullRequests) {
+        let skipReason = await getSkipReason(connection, pullRequest, filters);
+        if (!skipReason && filters.maxPullRequests > 0 && selected >= filters.maxPullRequests) {
+            skipReason = `Limit of ${filters.maxPullRequests} pull requests per sweep reached`;
+        }
+        if (!skipReason) {
+            selected++;
+        }
+        candidates.push({ pullRequest, skipReason });
+    }
+
+    return candidates;
+}
+
+function runGit(workingDirectory: string, args: string[]): string {
+    const result = child_process.spawnSync('git', args, { cwd: workingDirectory, encoding: 'utf8' });
+    if (result.error) {
+        throw new Error(`git ${args[0]} failed: ${result.error.message}`);
+    }
+    if (result.status !== 0) {
+        throw new Error(`git ${args[0]} failed (exit code ${result.status}): ${(result.stderr || result.stdout || '').trim()}`);
+    }
+    return result.stdout.trim();
+}
+
+/**
+ * Fetches the source and target branches of the pull request into the repository in workingDirectory and
+ * checks out its last merge source commit (detached) in a new worktree under worktreeRoot, so the review
+ * sees the pull request's code like a PR validation build does. Returns the worktree directory. The worktree
+ * is kept after the review: the files attached to the run from it are uploaded after the task ends. The
+ * agent cleans the temporary directory, and stale worktree entries are pruned before the next one is added.
+ */
+export function checkoutPullRequest(workingDirectory: string, pullRequest: GitPullRequest, worktreeRoot: string): string {
+    if (!pullRequest.sourceRefName) {
+        throw new Error(`Pull request #${pullRequest.pullRequestId} has no source branch.`);
+    }
+
+    const refs = [pullRequest.sourceRefName, pullRequest.targetRefName].filter((ref): ref is string => !!ref);
+    runGit(workingDirectory, ['fetch', '--no-tags', 'origin', ...refs]);
+    const commitId = pullRequest.lastMergeSourceCommit?.commitId ?? runGit(workingDirectory, ['rev-parse', 'FETCH_HEAD']);
+
+    runGit(workingDirectory, ['worktree', 'prune']);
+    const worktreeDirectory = fs.mkdtempSync(path.join(worktreeRoot, `copilot-review-pr${pullRequest.pullRequestId}-`));
+    runGit(workingDirectory, ['worktree', 'add', '--detach', worktreeDirectory, commitId]);
+    console.log(`Checked out ${toBranchName(pullRequest.sourceRefName)} at ${commitId} in ${worktreeDirectory}.`);
+    return worktreeDirectory;
+}
+
+/**
+ * The run summary of each pull request gets its own file, so the summaries attached to the run do not
+ * overwrite each other.
+ */
+export function getSweepRunSummaryFileName(pullRequestId: number): string {
+    return `Copilot_Review_Summary_PR${pullRequestId}.md`;
+}
+
+/**
+ * The task result of the sweep is the worst result of the reviewed pull requests.
+ */
+export function getSweepTaskResult(results: SweepResult[]): { result: tl.TaskResult; message: string } {
+    const reviewed = results.filter(result => result.result !== undefined);
+    const failed = reviewed.filter(result => result.result === tl.TaskResult.Failed).length;
+    const withIssues = reviewed.filter(result => result.result === tl.TaskResult.SucceededWithIssues).length;
+    const message = `Sweep reviewed ${reviewed.length} pull request(s): ${reviewed.length - failed - withIssues} succeeded, ` +
+        `${withIssues} with issues, ${failed} failed; ${results.length - reviewed.length} skipped.`;
+
+    if (failed > 0) {
+        return { result: tl.TaskResult.Failed, message };
+    }
+    return { result: withIssues > 0 ? tl.TaskResult.SucceededWithIssues : tl.TaskResult.Succeeded, message };
+}
+
+export function formatSweepSummary(results: SweepResult[], dryRun: boolean): string {
+    const lines = [
+        `### Copilot Code Review Sweep${dryRun ? ' (dry run)' : ''}`,
+        '',
+        getSweepTaskResult(results).message,
+        '',
+        '| Pull request | Title | Result | Details | Duration |',
+        '| --- | --- | --- | --- | --- |'
+    ];
+    for (const result of results) {
+        const label = result.result !== undefined ? RESULT_LABELS[result.result] ?? String(result.result) : '⏭️ Skipped';
+        const duration = result.result !== undefined ? formatDuration(result.durationMs) : '-';
+        lines.push(`| #${result.pullRequestId} | ${escapeTableCell(result.title)} | ${label} | ${escapeTableCell(result.message)} | ${duration} |`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Logs the result table and attaches it to the pipeline run. Failures are logged as warnings.
+ */
+export function publishSweepSummary(results: SweepResult[], directory: string, dryRun: boolean): void {
+    const summary = formatSweepSummary(results, dryRun);
+    console.log('\n' + summary);
+    try {
+        const summaryFile = path.join(directory, SWEEP_SUMMARY_FILE_NAME);
+        fs.writeFileSync(summaryFile, summary, 'utf8');
+        tl.uploadSummary(summaryFile);
+        console.log(`Sweep summary attached: ${summaryFile}`);
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        tl.warning(`Could not attach the sweep summary: ${errorMessage}`);
+    }
+}
@@ -0,0 +1,14 @@
+// Entry point for mocha (npm test): every test file is imported here
+import './azureDevOpsClient.test';
+import './reviewEngine.test';
+import './reviewOutcome.test';
+import './findings.test';
+import './prDiff.test';
+import './reviewConfig.test';
+import './batching.test';
+import './duplicates.test';
+import './pathFilters.test';
+import './prDescription.test';
+import './promptTemplate.test';
+import './secretScan.test';
+import './secrets.test';
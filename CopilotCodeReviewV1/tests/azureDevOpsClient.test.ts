@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import {
+    AzureDevOpsApiError,
+    createThread,
+    getFileContent,
+    getIterationChanges,
+    getPullRequest,
+    getRetryDelayMs,
+    getThreads
+} from '../azureDevOpsClient';
+import { FakeServer, createConnection, startFakeServer } from './fakeServer';
+
+describe('azureDevOpsClient', () => {
+    let server: FakeServer | undefined;
+
+    afterEach(async () => {
+        await server?.close();
+        server = undefined;
+    });
+
+    it('sends the authorization header and the API version', async () => {
+        server = await startFakeServer(() => ({ body: { pullRequestId: 7, title: 'Title', status: 'active' } }));
+
+        const pullRequest = await getPullRequest(createConnection(server, 'Bearer'), 7);
+
+        assert.strictEqual(pullRequest.title, 'Title');
+        assert.strictEqual(server.requests[0].url, '/org/Project/_apis/git/repositories/Repo/pullrequests/7?api-version=7.1');
+        assert.strictEqual(server.requests[0].headers.authorization, 'Bearer test-token');
+    });
+
+    it('uses basic authentication with an empty user name for personal access tokens', async () => {
+        server = await startFakeServer(() => ({ body: { pullRequestId: 7, title: 'Title', status: 'active' } }));
+
+        await getPullRequest(createConnection(server), 7);
+
+        assert.strictEqual(server.requests[0].headers.authorization, `Basic ${Buffer.from(':test-token').toString('base64')}`);
+    });
+
+    it('follows nextSkip paging of the iteration changes', async () => {
+        server = await startFakeServer(request => {
+            const skip = Number(new URL(request.url, server!.url).searchParams.get('$skip'));
+            const entry = { changeType: 'edit', item: { path: `/file${skip}.ts` } };
+            return { body: skip < 4000 ? { changeEntries: [entry], nextSkip: skip + 2000 } : { changeEntries: [entry] } };
+        });
+
+        const changes = await getIterationChanges(createConnection(server), 7, 3, 1);
+
+        assert.deepStrictEqual(changes.map(change => change.item?.path), ['/file0.ts', '/file2000.ts', '/file4000.ts']);
+        assert.strictEqual(server.requests.length, 3);
+        assert.ok(server.requests.every(request => request.url.includes('$compareTo=1')));
+    });
+
+    it('follows the continuation token of the threads', async () => {
+        server = await startFakeServer(request => {
+            const token = new URL(request.url, server!.url).searchParams.get('continuationToken');
+            return token === 'page 2'
+                ? { body: { value: [{ id: 2, comments: [] }] } }
+                : { body: { value: [{ id: 1, comments: [] }] }, headers: { 'x-ms-continuationtoken': 'page 2' } };
+        });
+
+        const threads = await getThreads(createConnection(server), 7);
+
+        assert.deepStrictEqual(threads.map(thread => thread.id), [1, 2]);
+        assert.ok(server.requests[1].url.includes('continuationToken=page%202'));
+    });
+
+    it('returns undefined for a file that does not exist at the commit', async () => {
+        server = await startFakeServer(() => ({ status: 404, body: { message: 'not found' } }));
+
+        assert.strictEqual(await getFileContent(createConnection(server), '/missing.ts', 'abc123'), undefined);
+    });
+
+    it('returns the file content', async () => {
+        server = await startFakeServer(() => ({ body: { content: 'line 1\nline 2' } }));
+
+        assert.strictEqual(await getFileContent(createConnection(server), '/file.ts', 'abc123'), 'line 1\nline 2');
+        assert.ok(server.requests[0].url.includes('versionDescriptor.version=abc123'));
+    });
+
+    it('explains authentication failures', async () => {
+        server = await startFakeServer(() => ({ status: 401, body: 'token expired' }));
+
+        await assert.rejects(getPullRequest(createConnection(server), 7), (err: unknown) => {
+            assert.ok(err instanceof AzureDevOpsApiError);
+            assert.strictEqual(err.statusCode, 401);
+            assert.strictEqual(err.method, 'GET');
+            assert.match(err.message, /^Azure DevOps API error \(HTTP 401\) calling GET .*pullrequests\/7\?api-version=7\.1 — Authentication failed\./);
+            assert.match(err.message, /API response: token expired$/);
+            return true;
+        });
+    });
+
+    it('explains missing resources', async () => {
+        server = await startFakeServer(() => ({ status: 404, body: 'no such pull request' }));
+
+        await assert.rejects(getPullRequest(createConnection(server), 7), /HTTP 404\) calling GET .* — Resource not found\. .*API response: no such pull request$/);
+    });
+
+    it('includes the API response of other errors', async () => {
+        server = await startFakeServer(() => ({ status: 400, body: 'invalid thread' }));
+
+        await assert.rejects(createThread(createConnection(server), 7, { content: 'Comment' }), (err: unknown) => {
+            assert.ok(err instanceof AzureDevOpsApiError);
+            assert.strictEqual(err.statusCode, 400);
+            assert.match(err.message, /HTTP 400\) calling POST .*\/threads\?api-version=7\.1 — API response: invalid thread$/);
+            return true;
+        });
+        assert.deepStrictEqual(JSON.parse(server.requests[0].body).comments[0].content, 'Comment');
+    });
+
+    describe('retries', () => {
+        it('waits as long as Retry-After asks after HTTP 429', async () => {
+            server = await startFakeServer(() => server!.requests.length === 1
+                ? { status: 429, headers: { 'Retry-After': '1' }, body: 'slow down' }
+                : { body: { pullRequestId: 7, title: 'Title', status: 'active' } });
+
+            const started = Date.now();
+            const pullRequest = await getPullRequest(createConnection(server), 7);
+
+            assert.strictEqual(pullRequest.title, 'Title');
+            assert.strictEqual(server.requests.length, 2);
+            assert.ok(Date.now() - started >= 900, `retried after ${Date.now() - started} ms`);
+        });
+
+        it('retries a POST after HTTP 503', async () => {
+            server = await startFakeServer(() => server!.requests.length === 1
+                ? { status: 503, headers: { 'Retry-After': '0' }, body: 'unavailable' }
+                : { body: { id: 12, comments: [] } });
+
+            const thread = await createThread(createConnection(server), 7, { content: 'Comment' });
+
+            assert.strictEqual(thread.id, 12);
+            assert.deepStrictEqual(server.requests.map(request => request.method), ['POST', 'POST']);
+        });
+
+        it('does not retry a POST after HTTP 500, which may have been applied', async () => {
+            server = await startFakeServer(() => ({ status: 500, body: 'internal error' }));
+
+            await assert.rejects(createThread(createConnection(server), 7, { content: 'Comment' }), /HTTP 500\).*API response: internal error$/);
+            assert.strictEqual(server.requests.length, 1);
+        });
+
+        it('gives up after five attempts', async () => {
+            server = await startFakeServer(() => ({ status: 503, headers: { 'Retry-After': '0' }, body: 'unavailable' }));
+
+            await assert.rejects(getPullRequest(createConnection(server), 7), /HTTP 503\).*\(gave up after 5 attempts\)$/);
+            assert.strictEqual(server.requests.length, 5);
+        });
+
+        it('computes the delay from Retry-After or with capped exponential backoff', () => {
+            const now = Date.parse('2024-01-01T00:00:00Z');
+            assert.strictEqual(getRetryDelayMs(1, '3', now), 3000);
+            assert.strictEqual(getRetryDelayMs(1, 'Mon, 01 Jan 2024 00:00:10 GMT', now), 10000);
+            assert.strictEqual(getRetryDelayMs(1, '3600', now), 300000);
+            assert.strictEqual(getRetryDelayMs(1, undefined, now), 2000);
+            assert.strictEqual(getRetryDelayMs(3, 'soon', now), 8000);
+            assert.strictEqual(getRetryDelayMs(10, undefined, now), 60000);
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitPullRequestChange } from '../azureDevOpsClient';
+import { ReviewBatch, createReviewBatches, isBatchingEnabled, mergeWholeDiffReviews } from '../batching';
+
+describe('batching', () => {
+    describe('isBatchingEnabled', () => {
+        it('is enabled by either limit', () => {
+            assert.strictEqual(isBatchingEnabled({ maxFiles: 0, maxSizeKb: 0 }), false);
+            assert.strictEqual(isBatchingEnabled({ maxFiles: 10, maxSizeKb: 0 }), true);
+            assert.strictEqual(isBatchingEnabled({ maxFiles: 0, maxSizeKb: 100 }), true);
+        });
+    });
+
+    describe('createReviewBatches', () => {
+        let workingDirectory: string;
+
+        beforeEach(() => {
+            workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-review-test-'));
+            fs.mkdirSync(path.join(workingDirectory, 'src'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(workingDirectory, { recursive: true, force: true });
+        });
+
+        function createChanges(sizes: Record<string, number>): GitPullRequestChange[] {
+            return Object.entries(sizes).map(([name, size]) => {
+                if (size > 0) {
+                    fs.writeFileSync(path.join(workingDirectory, 'src', name), 'x'.repeat(size), 'utf8');
+                }
+                return { changeType: size > 0 ? 'edit' : 'delete', item: { path: `/src/${name}` } };
+            });
+        }
+
+        it('starts a new batch at the file limit', () => {
+            const changes = createChanges({ 'a.ts': 10, 'b.ts': 10, 'c.ts': 10, 'd.ts': 10, 'e.ts': 10 });
+
+            const batches = createReviewBatches(changes, workingDirectory, { maxFiles: 2, maxSizeKb: 0 });
+
+            assert.deepStrictEqual(batches.map(batch => batch.files), [['/src/a.ts', '/src/b.ts'], ['/src/c.ts', '/src/d.ts'], ['/src/e.ts']]);
+            assert.deepStrictEqual(batches.map(batch => [batch.index, batch.count]), [[1, 3], [2, 3], [3, 3]]);
+        });
+
+        it('starts a new batch at the size limit and gives a larger file a batch of its own', () => {
+            const changes = createChanges({ 'a.ts': 400, 'b.ts': 400, 'large.ts': 3000, 'c.ts': 100, 'deleted.ts': 0 });
+
+            const batches = createReviewBatches(changes, workingDirectory, { maxFiles: 0, maxSizeKb: 1 });
+
+            assert.deepStrictEqual(batches.map(batch => [batch.files, batch.sizeBytes]), [
+                [['/src/a.ts', '/src/b.ts'], 800],
+                [['/src/large.ts'], 3000],
+                [['/src/c.ts', '/src/deleted.ts'], 100]
+            ]);
+        });
+
+        it('applies both limits and skips changes without a path', () => {
+            const changes = [...createChanges({ 'a.ts': 100, 'b.ts': 100, 'c.ts': 900 }), { changeType: 'edit' }];
+
+            const batches = createReviewBatches(changes, workingDirectory, { maxFiles: 1, maxSizeKb: 1 });
+
+            assert.deepStrictEqual(batches.map(batch => batch.files), [['/src/a.ts'], ['/src/b.ts'], ['/src/c.ts']]);
+        });
+    });
+
+    describe('mergeWholeDiffReviews', () => {
+        function createBatch(index: number, files: string[]): ReviewBatch {
+            return { index, count: 2, files, sizeBytes: 0 };
+        }
+
+        const review = [
+            '## Summary of changes',
+            'Adds the login page.',
+            '',
+            '## Feedback on files',
+            '| File Name | Status | Comments |',
+            '| --- | --- | --- |',
+            '| /src/login.ts | ✅ Passed | Looks fine |',
+            '',
+            '## Detailed comments',
+            'No further comments.',
+            '',
+            '_[Generated by GitHub Copilot]_'
+        ].join('\r\n');
+
+        it('combines the reviews and reports a batch without output', () => {
+            const merged = mergeWholeDiffReviews([
+                { batch: createBatch(1, ['/src/login.ts']), markdown: review },
+                { batch: createBatch(2, ['/src/a.ts', '/src/b.ts']), error: 'timed out' }
+            ]);
+
+            assert.strictEqual(merged, [
+                '## Summary of changes',
+                '',
+                'Adds the login page.',
+                '',
+                '> ⚠️ Batch 2 of 2 was not reviewed (timed out). Files: /src/a.ts, /src/b.ts',
+                '',
+                '## Feedback on files',
+                '| File Name | Status | Comments |',
+                '| --- | --- | --- |',
+                '| /src/login.ts | ✅ Passed | Looks fine |',
+                '',
+                '## Detailed comments',
+                '',
+                'No further comments.',
+                '',
+                '_[Generated by GitHub Copilot]_'
+            ].join('\n'));
+        });
+
+        it('still produces a comment when no batch has output', () => {
+            const merged = mergeWholeDiffReviews([{ batch: createBatch(1, ['/src/a.ts']), markdown: '  \n' }]);
+
+            assert.ok(merged.includes('_No summary was produced._'));
+            assert.ok(merged.includes('> ⚠️ Batch 1 of 2 was not reviewed (no review output was written). Files: /src/a.ts'));
+            assert.ok(!merged.includes('## Detailed comments'));
+        });
+    });
+});
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { computeCommentFingerprint, computeFingerprint, extractSnippet, normalizeCommentBody } from '../duplicates';
+
+// The same values are listed in the examples of scripts/Get-CopilotCommentFingerprint.ps1; a change here
+// breaks duplicate detection against threads created by earlier runs and by the PowerShell script
+const PR_LEVEL_FINGERPRINT = '2ddd0b30ee24d1b7';
+const INLINE_FINGERPRINT = 'd9a74e085674b2e4';
+
+describe('duplicates', () => {
+    describe('normalizeCommentBody', () => {
+        it('drops the Copilot tag, the fallback file and line lines and markdown', () => {
+            const body = '**File:** /src/Program.cs\n**Lines 40-42**\n\n> **Consider** using `async`   here.\n\n_[Generated by GitHub Copilot]_';
+
+            assert.strictEqual(normalizeCommentBody(body), 'consider using async here.');
+        });
+
+        it('keeps bold text that is not a file or line reference', () => {
+            assert.strictEqual(normalizeCommentBody('**Line 42 is slow**\r\nCache the result.'), 'line 42 is slow cache the result.');
+        });
+    });
+
+    describe('extractSnippet', () => {
+        const content = 'first\n\n  var   data = client.GetData();\r\n\tvar result = data.Count;\nlast';
+
+        it('returns the range with whitespace collapsed and blank lines removed', () => {
+            assert.strictEqual(extractSnippet(content, 2, 4), 'var data = client.GetData();\nvar result = data.Count;');
+        });
+
+        it('returns all lines without a range and stops at the end of the content', () => {
+            assert.strictEqual(extractSnippet(content), 'first\nvar data = client.GetData();\nvar result = data.Count;\nlast');
+            assert.strictEqual(extractSnippet(content, 5, 10), 'last');
+        });
+    });
+
+    describe('computeFingerprint', () => {
+        it('matches the fingerprints of earlier runs and of the PowerShell script', () => {
+            assert.strictEqual(computeFingerprint(null, '', 'Consider using async here'), PR_LEVEL_FINGERPRINT);
+            assert.strictEqual(computeFingerprint('/src/Program.cs', 'var data = client.GetData();', 'Consider using async here'), INLINE_FINGERPRINT);
+        });
+
+        it('ignores formatting, the path separator and the case of the path', () => {
+            assert.strictEqual(
+                computeFingerprint('src\\program.cs', 'var data = client.GetData();', '**Consider** using `async` here\n\n_[Generated by GitHub Copilot]_'),
+                INLINE_FINGERPRINT
+            );
+        });
+
+        it('changes with the anchored code', () => {
+            assert.notStrictEqual(computeFingerprint('/src/Program.cs', 'var data = await client.GetDataAsync();', 'Consider using async here'), INLINE_FINGERPRINT);
+        });
+    });
+
+    describe('computeCommentFingerprint', () => {
+        let workingDirectory: string;
+
+        beforeEach(() => {
+            workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-review-test-'));
+            fs.mkdirSync(path.join(workingDirectory, 'src'));
+            const lines = Array.from({ length: 50 }, (_, index) => `// line ${index + 1}`);
+            lines[41] = '        var data =  client.GetData();';
+            fs.writeFileSync(path.join(workingDirectory, 'src', 'Program.cs'), lines.join('\r\n'), 'utf8');
+        });
+
+        afterEach(() => {
+            fs.rmSync(workingDirectory, { recursive: true, force: true });
+        });
+
+        it('fingerprints the code at the anchored line, not the line number', () => {
+            assert.strictEqual(computeCommentFingerprint(workingDirectory, 'Consider using async here', '/src/Program.cs', 42), INLINE_FINGERPRINT);
+        });
+
+        it('uses an empty snippet when the file does not exist', () => {
+            assert.strictEqual(
+                computeCommentFingerprint(workingDirectory, 'Consider using async here', '/src/Missing.cs', 42),
+                computeFingerprint('/src/Missing.cs', '', 'Consider using async here')
+            );
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AzureDevOpsConnection } from '../azureDevOpsClient';
+
+/**
+ * A local HTTP server standing in for Azure DevOps. The handler answers every request; all requests are
+ * recorded so tests can check what the client sent.
+ */
+
+export type FakeRequest = {
+    method: string;
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+};
+
+export type FakeResponse = {
+    status?: number;
+    headers?: Record<string, string>;
+    // Objects are sent as JSON
+    body?: unknown;
+};
+
+export type FakeServer = {
+    url: string;
+    requests: FakeRequest[];
+    close(): Promise<void>;
+};
+
+export async function startFakeServer(handler: (request: FakeRequest) => FakeResponse): Promise<FakeServer> {
+    const requests: FakeRequest[] = [];
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+            const request: FakeRequest = {
+                method: req.method ?? 'GET',
+                url: req.url ?? '/',
+                headers: req.headers,
+                body: Buffer.concat(chunks).toString('utf8')
+            };
+            requests.push(request);
+
+            const response = handler(request);
+            const body = response.body === undefined || typeof response.body === 'string'
+                ? response.body ?? ''
+                : JSON.stringify(response.body);
+            res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers });
+            res.end(body);
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise<void>(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        })
+    };
+}
+
+export function createConnection(server: FakeServer, authType: AzureDevOpsConnection['authType'] = 'Basic'): AzureDevOpsConnection {
+    return {
+        collectionUri: `${server.url}/org/`,
+        project: 'Project',
+        repository: 'Repo',
+        token: 'test-token',
+        authType
+    };
+}
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitPullRequestChange } from '../azureDevOpsClient';
+import { loadFindings } from '../findings';
+
+describe('findings', () => {
+    let workingDirectory: string;
+    let findingsFile: string;
+    const changes: GitPullRequestChange[] = [{ changeType: 'edit', item: { path: '/src/app.ts' } }];
+
+    beforeEach(() => {
+        workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-review-test-'));
+        findingsFile = path.join(workingDirectory, 'Copilot_Findings.json');
+        fs.mkdirSync(path.join(workingDirectory, 'src'));
+        fs.writeFileSync(path.join(workingDirectory, 'src', 'app.ts'), Array.from({ length: 50 }, (_, index) => `line ${index + 1}`).join('\n'), 'utf8');
+    });
+
+    afterEach(() => {
+        fs.rmSync(workingDirectory, { recursive: true, force: true });
+    });
+
+    function writeFindings(findings: unknown[]): void {
+        fs.writeFileSync(findingsFile, JSON.stringify({ findings }), 'utf8');
+    }
+
+    describe('loadFindings', () => {
+        it('keeps findings that overlap a changed hunk and drops the others', () => {
+            writeFindings([
+                { file: 'src/app.ts', startLine: 12, severity: 'major', status: 'notPassed', body: 'Inside the hunk.' },
+                { file: '/src/app.ts', startLine: 5, endLine: 10, severity: 'minor', status: 'questions', body: 'Overlaps the hunk.' },
+                { file: '/src/app.ts', startLine: 30, severity: 'major', status: 'notPassed', body: 'Unchanged line.' },
+                { file: null, severity: 'info', status: 'passed', body: 'PR-level feedback.' }
+            ]);
+
+            const findings = loadFindings(findingsFile, changes, workingDirectory, new Map([['/src/app.ts', [{ startLine: 10, endLine: 16 }]]]));
+
+            assert.deepStrictEqual(findings.map(finding => finding.body), ['Inside the hunk.', 'Overlaps the hunk.', 'PR-level feedback.']);
+            assert.strictEqual(findings[0].file, '/src/app.ts');
+            assert.strictEqual(findings[0].endLine, 12);
+        });
+
+        it('does not check the lines of files without hunk information', () => {
+            writeFindings([{ file: '/src/app.ts', startLine: 30, severity: 'major', status: 'notPassed', body: 'Unchanged line.' }]);
+
+            assert.strictEqual(loadFindings(findingsFile, changes, workingDirectory, new Map()).length, 1);
+            assert.strictEqual(loadFindings(findingsFile, changes, workingDirectory).length, 1);
+        });
+
+        it('drops findings on files outside the changes and past the end of the file', () => {
+            writeFindings([
+                { file: '/src/other.ts', startLine: 1, severity: 'major', status: 'notPassed', body: 'Other file.' },
+                { file: '/src/app.ts', startLine: 49, endLine: 60, severity: 'major', status: 'notPassed', body: 'Past the end.' },
+                { file: '/src/app.ts', startLine: 1, severity: 'urgent', status: 'notPassed', body: 'Unknown severity.' }
+            ]);
+
+            assert.deepStrictEqual(loadFindings(findingsFile, changes, workingDirectory), []);
+        });
+
+        it('drops findings that do not match the findings schema', () => {
+            writeFindings([
+                { file: '/src/app.ts', startLine: 0, severity: 'major', status: 'notPassed', body: 'Line zero.' },
+                { file: '/src/app.ts', startLine: 2.5, severity: 'major', status: 'notPassed', body: 'Fractional line.' },
+                { file: ' ', severity: 'info', status: 'passed', body: 'Blank file.' },
+                { severity: 'info', status: 'passed', body: ' ' },
+                { severity: 'info', status: 'passed', body: 'Extra property.', line: 3 },
+                { file: '/src/app.ts', severity: 'major', status: 'notPassed', body: 'No line.' },
+                { file: '/src/app.ts', startLine: 5, endLine: 4, severity: 'major', status: 'notPassed', body: 'Reversed lines.' },
+                'not a finding',
+                { file: null, startLine: null, endLine: null, severity: 'info', status: 'passed', body: 'Valid.' }
+            ]);
+
+            assert.deepStrictEqual(loadFindings(findingsFile, changes, workingDirectory).map(finding => finding.body), ['Valid.']);
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { GitPullRequestChange } from '../azureDevOpsClient';
+import { PathFilters, filterChanges, hasPathFilters, isPathIncluded, parsePatternList } from '../pathFilters';
+
+function createFilters(overrides: Partial<PathFilters> = {}): PathFilters {
+    return { includePaths: [], excludePaths: [], useDefaultExcludes: false, ...overrides };
+}
+
+describe('pathFilters', () => {
+    describe('parsePatternList', () => {
+        it('splits on newlines and commas outside braces and normalizes the patterns', () => {
+            assert.deepStrictEqual(parsePatternList('src/**, /docs/*.md\r\n*.{png,jpg}\n\n  tests\\fixtures/** ,'), [
+                'src/**',
+                'docs/*.md',
+                '*.{png,jpg}',
+                'tests/fixtures/**'
+            ]);
+            assert.deepStrictEqual(parsePatternList(undefined), []);
+        });
+    });
+
+    describe('isPathIncluded', () => {
+        it('includes every file without filters', () => {
+            assert.strictEqual(hasPathFilters(createFilters()), false);
+            assert.strictEqual(isPathIncluded('/package-lock.json', createFilters()), true);
+        });
+
+        it('excludes lockfiles, minified bundles and binaries by default', () => {
+            const filters = createFilters({ useDefaultExcludes: true });
+
+            for (const filePath of ['/package-lock.json', '/web/yarn.lock', '/dist/app.min.js', '/assets/Logo.PNG', '/lib/native.dll', '/go.sum']) {
+                assert.strictEqual(isPathIncluded(filePath, filters), false, filePath);
+            }
+            for (const filePath of ['/src/app.ts', '/package.json', '/src/lockfile.ts', '/.github/workflows/build.yml']) {
+                assert.strictEqual(isPathIncluded(filePath, filters), true, filePath);
+            }
+        });
+
+        it('keeps only files matching an include pattern', () => {
+            const filters = createFilters({ includePaths: ['src/**', '*.md'] });
+
+            assert.strictEqual(isPathIncluded('/src/app.ts', filters), true);
+            assert.strictEqual(isPathIncluded('/docs/guide/README.md', filters), true);
+            assert.strictEqual(isPathIncluded('/tests/app.test.ts', filters), false);
+        });
+
+        it('lets exclude patterns win over include patterns', () => {
+            const filters = createFilters({ includePaths: ['src/**'], excludePaths: ['src/generated/**'] });
+
+            assert.strictEqual(isPathIncluded('/src/app.ts', filters), true);
+            assert.strictEqual(isPathIncluded('/src/generated/client.ts', filters), false);
+        });
+
+        it('applies the default excludes to included files too', () => {
+            const filters = createFilters({ includePaths: ['web/**'], excludePaths: ['*.snap'], useDefaultExcludes: true });
+
+            assert.strictEqual(isPathIncluded('/web/package-lock.json', filters), false);
+            assert.strictEqual(isPathIncluded('/web/__snapshots__/app.snap', filters), false);
+            assert.strictEqual(isPathIncluded('/web/app.tsx', filters), true);
+        });
+    });
+
+    describe('filterChanges', () => {
+        it('splits the changes and keeps changes without a path', () => {
+            const changes: GitPullRequestChange[] = [
+                { changeType: 'edit', item: { path: '/src/app.ts' } },
+                { changeType: 'edit', item: { path: '/yarn.lock' } },
+                { changeType: 'edit' }
+            ];
+
+            const result = filterChanges(changes, createFilters({ useDefaultExcludes: true }));
+
+            assert.deepStrictEqual(result.included, [changes[0], changes[2]]);
+            assert.deepStrictEqual(result.excluded, [changes[1]]);
+        });
+    });
+});
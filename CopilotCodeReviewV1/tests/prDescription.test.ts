@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { formatDescriptionSection, isDescriptionCurrent, mergeDescription } from '../prDescription';
+import { WorkItemDetails } from '../workItems';
+
+const WORK_ITEMS: WorkItemDetails[] = [{ id: 42, type: 'User Story', title: 'Login page', state: 'Active', sections: [], truncated: false }];
+
+describe('prDescription', () => {
+    describe('formatDescriptionSection', () => {
+        it('wraps the generated text and the linked work items in the markers', () => {
+            assert.strictEqual(formatDescriptionSection('  Adds the login page.\n', WORK_ITEMS, 3, 4000), [
+                '<!-- copilot-description:start iteration=3 -->',
+                '_Generated by GitHub Copilot for iteration #3. This section is replaced when new changes are pushed; write your own notes outside of it._',
+                'Adds the login page.',
+                '### Linked work items\n- #42 Login page (User Story, Active)',
+                '<!-- copilot-description:end -->'
+            ].join('\n\n'));
+        });
+
+        it('shortens the generated text at a line break to fit the limit', () => {
+            const generated = Array.from({ length: 100 }, (_, index) => `- Change ${index + 1}: ${'x'.repeat(40)}`).join('\n');
+
+            const section = formatDescriptionSection(generated, [], 3, 1000);
+
+            assert.ok(section.length <= 1000, `${section.length} characters`);
+            assert.ok(section.includes(`x\n\n_(Shortened to fit the pull request description limit.)_\n\n### Linked work items\n_No linked work items._`));
+        });
+
+        it('fails when there is no room for the generated text', () => {
+            assert.throws(() => formatDescriptionSection('x'.repeat(1000), [], 3, 400), /leaves no room for the generated section/);
+        });
+    });
+
+    describe('mergeDescription', () => {
+        it('appends the section after the author\'s text', () => {
+            const merged = mergeDescription('Fixes the login.\n\n', 'Adds the login page.', [], 3);
+
+            assert.ok(merged.startsWith('Fixes the login.\n\n<!-- copilot-description:start iteration=3 -->\n\n'));
+            assert.ok(merged.endsWith('<!-- copilot-description:end -->'));
+            assert.strictEqual(mergeDescription(undefined, 'Adds the login page.', [], 3), formatDescriptionSection('Adds the login page.', [], 3, 4000));
+        });
+
+        it('replaces the section and keeps the author\'s text before and after it', () => {
+            const before = 'Fixes the login.\n\n';
+            const after = '\n\n## Testing\nTried it locally.  ';
+            const description = before + formatDescriptionSection('Old text.', [], 2, 4000) + after;
+
+            const merged = mergeDescription(description, 'New text.', WORK_ITEMS, 3);
+
+            assert.strictEqual(merged, before + formatDescriptionSection('New text.', WORK_ITEMS, 3, 4000 - before.length - after.length) + after);
+            assert.ok(!merged.includes('Old text.'));
+        });
+
+        it('fails when the section has no end marker', () => {
+            assert.throws(
+                () => mergeDescription('Fixes the login.\n<!-- copilot-description:start iteration=2 -->\nOld text.', 'New text.', [], 3),
+                /has no end marker/
+            );
+        });
+    });
+
+    describe('isDescriptionCurrent', () => {
+        it('compares the iteration of the section', () => {
+            const description = mergeDescription('Fixes the login.', 'Adds the login page.', [], 3);
+
+            assert.strictEqual(isDescriptionCurrent(description, 3), true);
+            assert.strictEqual(isDescriptionCurrent(description, 4), false);
+            assert.strictEqual(isDescriptionCurrent(description, undefined), false);
+            assert.strictEqual(isDescriptionCurrent('Fixes the login.', 3), false);
+            assert.strictEqual(isDescriptionCurrent('<!-- copilot-description:start iteration=3 -->', 3), false);
+        });
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { formatUnifiedDiff, parseHunkRanges } from '../prDiff';
+
+describe('prDiff', () => {
+    describe('parseHunkRanges', () => {
+        it('returns the new-file lines of each hunk', () => {
+            const diff = [
+                'diff --git a/src/app.ts b/src/app.ts',
+                '--- a/src/app.ts',
+                '+++ b/src/app.ts',
+                '@@ -1,3 +1,4 @@',
+                '@@ -20 +21 @@',
+                '@@ -40,2 +41,0 @@'
+            ].join('\n');
+
+            assert.deepStrictEqual(parseHunkRanges(diff), [{ startLine: 1, endLine: 4 }, { startLine: 21, endLine: 21 }]);
+        });
+
+        it('matches the hunks of a computed diff', () => {
+            const oldLines = Array.from({ length: 30 }, (_, index) => `line ${index + 1}`);
+            const newLines = [...oldLines];
+            newLines[14] = 'changed line 15';
+
+            const diff = formatUnifiedDiff('/file.txt', '/file.txt', oldLines.join('\n'), newLines.join('\n'));
+
+            assert.deepStrictEqual(parseHunkRanges(diff), [{ startLine: 12, endLine: 18 }]);
+        });
+    });
+});
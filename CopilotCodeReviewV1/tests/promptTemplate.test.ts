@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptTemplateVariables, renderPromptText, resolvePromptIncludes } from '../promptTemplate';
+
+function createVariables(overrides: Partial<PromptTemplateVariables> = {}): PromptTemplateVariables {
+    return {
+        pullRequestId: '7',
+        prTitle: 'Add login',
+        sourceBranch: 'feature/login',
+        targetBranch: 'main',
+        author: 'Dana',
+        changedFiles: '/src/login.ts',
+        iterationId: '2',
+        repository: 'app',
+        project: 'web',
+        wholeDiff: 'true',
+        perFile: '',
+        ...overrides
+    };
+}
+
+describe('promptTemplate', () => {
+    describe('renderPromptText', () => {
+        const template = '{{#if wholeDiff}}whole{{#if perFile}} per file{{else}} at once{{/if}}{{else}}batched{{/if}}';
+
+        it('evaluates nested conditionals with else branches', () => {
+            assert.strictEqual(renderPromptText(template, createVariables()), 'whole at once');
+            assert.strictEqual(renderPromptText(template, createVariables({ perFile: 'true' })), 'whole per file');
+            assert.strictEqual(renderPromptText(template, createVariables({ wholeDiff: 'false' })), 'batched');
+        });
+
+        it('replaces variables and leaves unknown ones as they are', () => {
+            assert.strictEqual(
+                renderPromptText('PR {{ pullRequestId }} by {{author}} into {{targetBranch}}: {{ticket}}', createVariables()),
+                'PR 7 by Dana into main: {{ticket}}'
+            );
+        });
+
+        it('does not evaluate tags in variable values', () => {
+            const prTitle = '{{#if perFile}}{{author}}{{/if}} {{include ../secret.txt}}';
+
+            assert.strictEqual(renderPromptText('Title: {{prTitle}}', createVariables({ prTitle })), `Title: ${prTitle}`);
+        });
+
+        it('fails on unmatched tags', () => {
+            assert.throws(() => renderPromptText('{{#if wholeDiff}}whole', createVariables()), /^Error: Unmatched '\{\{#if wholeDiff\}\}' in the prompt template\.$/);
+            assert.throws(() => renderPromptText('whole{{/if}}', createVariables()), /Unmatched '\{\{\/if\}\}'/);
+            assert.throws(() => renderPromptText('whole{{else}}batched', createVariables()), /Unmatched '\{\{else\}\}'/);
+        });
+    });
+
+    describe('resolvePromptIncludes', () => {
+        let workingDirectory: string;
+        let repositoryRoot: string;
+
+        beforeEach(() => {
+            workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-review-test-'));
+            repositoryRoot = path.join(workingDirectory, 'repo');
+            fs.mkdirSync(path.join(repositoryRoot, 'prompts'), { recursive: true });
+            fs.writeFileSync(path.join(workingDirectory, 'secret.txt'), 'outside', 'utf8');
+        });
+
+        afterEach(() => {
+            fs.rmSync(workingDirectory, { recursive: true, force: true });
+        });
+
+        function writePrompt(name: string, content: string): void {
+            fs.writeFileSync(path.join(repositoryRoot, 'prompts', name), content, 'utf8');
+        }
+
+        it('inserts nested includes relative to the repository root', () => {
+            writePrompt('standards.md', 'Standards:\n{{include prompts/naming.md}}\n');
+            writePrompt('naming.md', 'Use camelCase.');
+
+            assert.strictEqual(
+                resolvePromptIncludes('Review.\n{{include /prompts/standards.md}}\n{{ include "prompts/naming.md" }}', repositoryRoot),
+                'Review.\nStandards:\nUse camelCase.\nUse camelCase.'
+            );
+        });
+
+        it('rejects includes outside the repository', () => {
+            assert.throws(() => resolvePromptIncludes('{{include ../secret.txt}}', repositoryRoot), /^Error: Prompt include '\.\.\/secret\.txt' is outside the repository\.$/);
+        });
+
+        it('rejects symbolic links to files outside the repository', () => {
+            fs.symlinkSync(path.join(workingDirectory, 'secret.txt'), path.join(repositoryRoot, 'prompts', 'link.md'));
+
+            assert.throws(() => resolvePromptIncludes('{{include prompts/link.md}}', repositoryRoot), /is outside the repository/);
+        });
+
+        it('fails on a missing include', () => {
+            assert.throws(() => resolvePromptIncludes('{{include prompts/missing.md}}', repositoryRoot), /^Error: Prompt include not found: prompts\/missing\.md$/);
+        });
+
+        it('stops includes nested deeper than five levels', () => {
+            writePrompt('cycle.md', 'again {{include prompts/cycle.md}}');
+
+            assert.throws(() => resolvePromptIncludes('{{include prompts/cycle.md}}', repositoryRoot), /nested more than 5 levels deep/);
+        });
+    });
+});
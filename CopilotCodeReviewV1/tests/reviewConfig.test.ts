@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { matchPathInstructions, validateReviewConfig } from '../reviewConfig';
+
+describe('reviewConfig', () => {
+    describe('validateReviewConfig', () => {
+        it('accepts a valid config and an empty file', () => {
+            assert.deepStrictEqual(validateReviewConfig({
+                reviewBugs: false,
+                excludePaths: ['docs/**'],
+                pathInstructions: [{ path: 'src/auth/**', instructions: 'Check the authorization.' }],
+                model: 'model-a'
+            }), []);
+            assert.deepStrictEqual(validateReviewConfig(null), []);
+        });
+
+        it('reports every error against the schema', () => {
+            assert.deepStrictEqual(validateReviewConfig({
+                reviewBugs: 'yes',
+                excludePaths: ['docs/**', ' '],
+                pathInstructions: [{ path: '', note: 'x' }],
+                modle: 'model-a'
+            }), [
+                'unknown properties: modle',
+                'reviewBugs must be true or false',
+                'excludePaths[1] does not match the pattern \\S',
+                'pathInstructions[0] has unknown properties: note',
+                'pathInstructions[0].instructions is required',
+                'pathInstructions[0].path must not be empty'
+            ]);
+        });
+
+        it('rejects a document that is not a mapping', () => {
+            assert.deepStrictEqual(validateReviewConfig(['reviewBugs']), ['the document must be a mapping']);
+        });
+    });
+
+    describe('matchPathInstructions', () => {
+        const changes = ['/src/auth/login.ts', '/src/authz.ts', '/docs/readme.md'].map(path => ({ changeType: 'edit', item: { path } }));
+
+        it('treats a pattern without glob characters as a directory', () => {
+            const matched = matchPathInstructions([
+                { path: 'src/auth', instructions: 'Check the authorization.' },
+                { path: 'docs/', instructions: 'Check the spelling.' }
+            ], changes);
+
+            assert.deepStrictEqual(matched.map(entry => entry.files), [['/src/auth/login.ts'], ['/docs/readme.md']]);
+        });
+
+        it('matches glob patterns as they are', () => {
+            const matched = matchPathInstructions([
+                { path: 'src/auth*', instructions: 'Check the authorization.' },
+                { path: 'src/*.md', instructions: 'Check the spelling.' }
+            ], changes);
+
+            assert.deepStrictEqual(matched.map(entry => entry.files), [['/src/authz.ts']]);
+        });
+    });
+});
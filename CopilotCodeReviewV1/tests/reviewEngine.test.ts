@@ -0,0 +1,157 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    EngineFailureKind,
+    EngineRunOptions,
+    ReviewEngineError,
+    ReviewTimeoutError,
+    classifyEngineFailure,
+    createFakeEngine,
+    escapeLoggingCommands,
+    withModelFallback
+} from '../reviewEngine';
+
+describe('reviewEngine', () => {
+    let workingDirectory: string;
+    let promptFilePath: string;
+
+    beforeEach(() => {
+        workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-review-test-'));
+        promptFilePath = path.join(workingDirectory, '_copilot_prompt.txt');
+        fs.writeFileSync(promptFilePath, 'Review the changes.', 'utf8');
+    });
+
+    afterEach(() => {
+        fs.rmSync(workingDirectory, { recursive: true, force: true });
+    });
+
+    function runOptions(overrides: Partial<EngineRunOptions> = {}): EngineRunOptions {
+        return {
+            promptFilePath,
+            model: 'model-a',
+            workingDirectory,
+            timeoutMs: 60000,
+            environment: { includeAzureDevOpsToken: false },
+            secrets: [],
+            ...overrides
+        };
+    }
+
+    // A fake engine that fails with the given kinds, one per run, and succeeds once they are used up
+    function failingEngine(failures: EngineFailureKind[], runs: EngineRunOptions[]) {
+        return createFakeEngine(options => {
+            runs.push(options);
+            const kind = failures.shift();
+            if (kind) {
+                throw new ReviewEngineError(`fake engine failed (${kind})`, kind, 1, 10);
+            }
+        });
+    }
+
+    describe('classifyEngineFailure', () => {
+        it('classifies the end of the output', () => {
+            assert.strictEqual(classifyEngineFailure(1, ['Error: 429 Too Many Requests']), 'rateLimit');
+            assert.strictEqual(classifyEngineFailure(1, ['Something went wrong']), 'other');
+            assert.strictEqual(classifyEngineFailure(0, ['429 Too Many Requests']), 'other');
+        });
+    });
+
+    describe('escapeLoggingCommands', () => {
+        it('breaks up logging and formatting commands anywhere in the text', () => {
+            const escaped = escapeLoggingCommands('##vso[task.prependpath]/tmp/evil\nsee ##VSO[artifact.upload]x and ##[group]title');
+
+            assert.ok(!/##(vso)?\[/i.test(escaped), escaped);
+            assert.strictEqual(escaped.replace(/\u200B/g, ''), '##vso[task.prependpath]/tmp/evil\nsee ##VSO[artifact.upload]x and ##[group]title');
+        });
+    });
+
+    describe('withModelFallback', () => {
+        it('falls back to the next model when the model is unavailable', async () => {
+            const runs: EngineRunOptions[] = [];
+            const engine = withModelFallback(failingEngine(['modelUnavailable'], runs), ['model-b']);
+
+            await engine.run(runOptions());
+
+            assert.deepStrictEqual(runs.map(run => run.model), ['model-a', 'model-b']);
+        });
+
+        it('retries a rate-limited model before falling back', async () => {
+            const runs: EngineRunOptions[] = [];
+            const engine = withModelFallback(failingEngine(['rateLimit', 'rateLimit'], runs), ['model-b']);
+
+            await engine.run(runOptions());
+
+            assert.deepStrictEqual(runs.map(run => run.model), ['model-a', 'model-a', 'model-b']);
+        });
+
+        it('does not retry authentication failures', async () => {
+            const runs: EngineRunOptions[] = [];
+            const engine = withModelFallback(failingEngine(['auth'], runs), ['model-b']);
+
+            await assert.rejects(engine.run(runOptions()), (err: unknown) => err instanceof ReviewEngineError && err.kind === 'auth');
+            assert.strictEqual(runs.length, 1);
+        });
+
+        it('rethrows the last failure when no fallback model is left', async () => {
+            const runs: EngineRunOptions[] = [];
+            const engine = withModelFallback(failingEngine(['modelUnavailable', 'modelUnavailable'], runs), ['model-b']);
+
+            await assert.rejects(engine.run(runOptions()), /fake engine failed \(modelUnavailable\)/);
+            assert.strictEqual(runs.length, 2);
+        });
+
+        it('gives the retries only the remaining time', async () => {
+            const runs: EngineRunOptions[] = [];
+            const engine = withModelFallback(createFakeEngine(async options => {
+                runs.push(options);
+                if (runs.length === 1) {
+                    await new Promise(resolve => setTimeout(resolve, 50));
+                    throw new ReviewEngineError('fake engine failed (modelUnavailable)', 'modelUnavailable', 1);
+                }
+            }), ['model-b']);
+
+            await engine.run(runOptions({ timeoutMs: 10000 }));
+
+            assert.strictEqual(runs[0].timeoutMs, 10000);
+            assert.ok(runs[1].timeoutMs <= 10000 - 50, `second attempt got ${runs[1].timeoutMs} ms`);
+        });
+
+        it('times out when the time is used up before the retry', async () => {
+            const engine = withModelFallback(createFakeEngine(async () => {
+                await new Promise(resolve => setTimeout(resolve, 30));
+                throw new ReviewEngineError('fake engine failed (modelUnavailable)', 'modelUnavailable', 1);
+            }), ['model-b']);
+
+            await assert.rejects(engine.run(runOptions({ timeoutMs: 20 })), ReviewTimeoutError);
+        });
+
+        it('does not retry when beforeRetry refuses', async () => {
+            const runs: EngineRunOptions[] = [];
+            let checks = 0;
+            const engine = withModelFallback(failingEngine(['modelUnavailable'], runs), ['model-b']);
+
+            await assert.rejects(engine.run(runOptions({
+                beforeRetry: async () => {
+                    checks++;
+                    return false;
+                }
+            })), /fake engine failed \(modelUnavailable\)/);
+            assert.strictEqual(checks, 1);
+            assert.strictEqual(runs.length, 1);
+        });
+
+        it('does not retry when beforeRetry fails', async () => {
+            const runs: EngineRunOptions[] = [];
+            const engine = withModelFallback(failingEngine(['rateLimit'], runs), []);
+
+            await assert.rejects(engine.run(runOptions({
+                beforeRetry: async () => {
+                    throw new Error('threads unavailable');
+                }
+            })), /fake engine failed \(rateLimit\)/);
+            assert.strictEqual(runs.length, 1);
+        });
+    });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { PullRequestThread } from '../azureDevOpsClient';
+import { countDryRunOpenThreads } from '../dryRun';
+import { collectReviewOutcome, countOpenThreads } from '../reviewOutcome';
+import { COPILOT_THREAD_PROPERTY, THREAD_SECRET_SCAN_PROPERTY } from '../reviewState';
+import { FakeServer, createConnection, startFakeServer } from './fakeServer';
+
+function copilotThread(id: number, status: PullRequestThread['status'], content: string, properties: Record<string, string> = {}): PullRequestThread {
+    return {
+        id,
+        status,
+        comments: [{ id: 1, content: `${content}\n\n_[Generated by GitHub Copilot]_` }],
+        properties: Object.fromEntries(Object.entries({ [COPILOT_THREAD_PROPERTY]: 'true', ...properties })
+            .map(([name, value]) => [name, { $type: 'System.String', $value: value }]))
+    };
+}
+
+function developerThread(id: number, content: string): PullRequestThread {
+    return { id, status: 'active', comments: [{ id: 1, content }] };
+}
+
+describe('reviewOutcome', () => {
+    describe('countOpenThreads', () => {
+        it('counts the open Copilot threads by status label', () => {
+            const counts = countOpenThreads([
+                copilotThread(1, 'active', '**Status:** ❌ Not Passed'),
+                copilotThread(2, 'pending', '**Status:** ❓ Questions'),
+                copilotThread(3, 'fixed', '**Status:** ❌ Not Passed'),
+                copilotThread(4, 'closed', '**Status:** ✅ Passed'),
+                developerThread(5, '❌ Not Passed, says the developer')
+            ], false);
+
+            assert.deepStrictEqual(counts, { passed: 0, questions: 1, notPassed: 1, unlabeled: 0, total: 2 });
+        });
+
+        it('only counts secret scan threads when asked to', () => {
+            const threads = [
+                copilotThread(1, 'active', '**Status:** ❌ Not Passed', { [THREAD_SECRET_SCAN_PROPERTY]: 'true' }),
+                copilotThread(2, 'active', '**Status:** ❓ Questions')
+            ];
+
+            assert.deepStrictEqual(countOpenThreads(threads, false), { passed: 0, questions: 1, notPassed: 0, unlabeled: 0, total: 1 });
+            assert.deepStrictEqual(countOpenThreads(threads, true), { passed: 0, questions: 1, notPassed: 1, unlabeled: 0, total: 2 });
+        });
+    });
+
+    describe('collectReviewOutcome', () => {
+        let server: FakeServer | undefined;
+
+        afterEach(async () => {
+            await server?.close();
+            server = undefined;
+        });
+
+        it('keeps counting an open finding that was not posted again', async () => {
+            const previousThreads = [
+                copilotThread(1, 'active', '**Status:** ❌ Not Passed'),
+                copilotThread(2, 'active', '**Status:** ❓ Questions')
+            ];
+            const currentThreads = [
+                previousThreads[0],
+                { ...previousThreads[1], status: 'fixed' as const },
+                copilotThread(3, 'closed', '**Status:** ✅ Passed')
+            ];
+            server = await startFakeServer(() => ({ body: { value: currentThreads } }));
+
+            const outcome = await collectReviewOutcome(createConnection(server), 7, previousThreads, false);
+
+            assert.deepStrictEqual(outcome.counts, { passed: 1, questions: 0, notPassed: 0, unlabeled: 0, total: 1 });
+            assert.deepStrictEqual(outcome.openCounts, { passed: 0, questions: 0, notPassed: 1, unlabeled: 0, total: 1 });
+            assert.deepStrictEqual(outcome.activity, { created: 1, updated: 0, resolved: 1, deleted: 0 });
+        });
+    });
+
+    describe('countDryRunOpenThreads', () => {
+        it('applies the recorded status changes and adds the recorded open threads', () => {
+            const previousThreads = [
+                copilotThread(1, 'active', '**Status:** ❌ Not Passed'),
+                copilotThread(2, 'active', '**Status:** ❌ Not Passed'),
+                copilotThread(3, 'active', '**Status:** ❌ Not Passed')
+            ];
+
+            const counts = countDryRunOpenThreads(previousThreads, [
+                { action: 'update', source: 'task', threadId: 1, status: 'Fixed' },
+                { action: 'update', source: 'copilot', threadId: 2, commentId: 1, comment: '**Status:** ❓ Questions' },
+                { action: 'add', source: 'copilot', comment: '**Status:** ❓ Questions' },
+                { action: 'add', source: 'copilot', comment: '**Status:** ✅ Passed' },
+                { action: 'add', source: 'copilot', threadId: 3, comment: 'Still applies.' }
+            ], false);
+
+            assert.deepStrictEqual(counts, { passed: 0, questions: 2, notPassed: 1, unlabeled: 0, total: 3 });
+        });
+
+        it('only counts recorded secret scan findings when asked to', () => {
+            const actions = [{ action: 'add' as const, source: 'task' as const, comment: '**Status:** ❌ Not Passed', status: 'Active', secretScan: true }];
+
+            assert.strictEqual(countDryRunOpenThreads([], actions, false).total, 0);
+            assert.strictEqual(countDryRunOpenThreads([], actions, true).notPassed, 1);
+        });
+    });
+});
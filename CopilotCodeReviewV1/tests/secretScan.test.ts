@@ -0,0 +1,175 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BUILT_IN_SECRET_RULES, SecretRules, getAddedLines, getShannonEntropy, loadSecretRules, maskSecret, scanLines } from '../secretScan';
+
+// Token-like values are built at run time, so this file does not trip secret scanners itself
+function randomLooking(length: number): string {
+    return 'q8Zr3LmN2vX7pT1wKc5Hy9BdF4gJ6sEa'.repeat(Math.ceil(length / 32)).substring(0, length);
+}
+
+const SAMPLE_LINES: Record<string, string> = {
+    'private-key': '-----BEGIN RSA ' + 'PRIVATE KEY-----',
+    'aws-access-key-id': `aws_access_key_id = ${'AKIA' + randomLooking(16).toUpperCase()}`,
+    'aws-secret-access-key': `aws_secret_access_key = "${randomLooking(40)}"`,
+    'github-token': `const token = ${'ghp_' + randomLooking(36)};`,
+    'azure-storage-key': `DefaultEndpointsProtocol=https;AccountName=store;${'AccountKey=' + randomLooking(86)}==;`,
+    'azure-sas-token': `https://store.blob.core.windows.net/c?sv=2022-11-02&${'sig=' + randomLooking(44)}`,
+    'azure-service-bus-key': `Endpoint=sb://bus.servicebus.windows.net/;${'SharedAccessKey=' + randomLooking(43)}=`,
+    'connection-string-password': 'Server=db;User Id=app;Password=Xy7#kP2q;',
+    'slack-token': `SLACK = ${'xoxb-' + '1234567890-' + randomLooking(12)}`,
+    'google-api-key': `const mapsKey = ${'AIza' + randomLooking(35)};`,
+    'stripe-key': `STRIPE = ${'sk_' + 'live_' + randomLooking(24)}`,
+    'jwt': `Authorization: Bearer ${['eyJ' + randomLooking(12), 'eyJ' + randomLooking(20), randomLooking(16)].join('.')}`,
+    'generic-secret': `apiKey: "${randomLooking(16)}"`
+};
+
+function scan(line: string, secretRules: SecretRules = loadSecretRules()) {
+    return scanLines('/src/app.ts', line, [1], secretRules);
+}
+
+describe('secretScan', () => {
+    let workingDirectory: string;
+    let rulesFile: string;
+
+    beforeEach(() => {
+        workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-review-test-'));
+        rulesFile = path.join(workingDirectory, 'secret-rules.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(workingDirectory, { recursive: true, force: true });
+    });
+
+    describe('scanLines', () => {
+        it('has a sample for every built-in rule', () => {
+            assert.deepStrictEqual(Object.keys(SAMPLE_LINES).sort(), BUILT_IN_SECRET_RULES.map(rule => rule.id).sort());
+        });
+
+        for (const [ruleId, line] of Object.entries(SAMPLE_LINES)) {
+            it(`reports ${ruleId}`, () => {
+                const findings = scan(line);
+
+                assert.ok(findings.some(finding => finding.ruleId === ruleId), `found ${findings.map(finding => finding.ruleId).join(', ') || 'nothing'}`);
+                assert.ok(findings.every(finding => finding.filePath === '/src/app.ts' && finding.line === 1));
+            });
+        }
+
+        it('does not report placeholders below the entropy threshold', () => {
+            assert.deepStrictEqual(scan('password = "changeme-changeme-changeme"'), []);
+            assert.deepStrictEqual(scan('Server=db;Password=aaaaaaaa;'), []);
+        });
+
+        it('does not report references to variables', () => {
+            assert.deepStrictEqual(scan('Server=db;Password=$(DbPassword);'), []);
+            assert.deepStrictEqual(scan('token: "${GITHUB_TOKEN_VALUE}"'), []);
+        });
+
+        it('scans only the given lines', () => {
+            const content = ['const a = 1;', SAMPLE_LINES['github-token'], 'const b = 2;'].join('\n');
+
+            assert.deepStrictEqual(scanLines('/src/app.ts', content, [1, 3], loadSecretRules()), []);
+            assert.deepStrictEqual(scanLines('/src/app.ts', content, [2], loadSecretRules()).map(finding => finding.line), [2]);
+        });
+
+        it('never puts the secret value into the finding', () => {
+            for (const line of Object.values(SAMPLE_LINES)) {
+                for (const finding of scan(line)) {
+                    assert.ok(finding.maskedValue.endsWith('********'));
+                    assert.ok(finding.maskedValue.length <= 12, finding.maskedValue);
+                }
+            }
+        });
+    });
+
+    describe('loadSecretRules', () => {
+        it('returns the built-in rules without a rules file', () => {
+            assert.deepStrictEqual(loadSecretRules(), { rules: BUILT_IN_SECRET_RULES, allow: [] });
+        });
+
+        it('adds the rules of the file and replaces built-in rules with the same id', () => {
+            fs.writeFileSync(rulesFile, JSON.stringify({
+                rules: [
+                    { id: 'jwt', pattern: 'eyJ[A-Za-z0-9_-]{10,}\\.eyJ[A-Za-z0-9_-]{10,}\\.[A-Za-z0-9_-]{10,}', minEntropy: 6 },
+                    { id: 'internal-key', pattern: 'intkey-([a-z0-9]{12})', caseInsensitive: true, secretGroup: 1 }
+                ]
+            }), 'utf8');
+
+            const secretRules = loadSecretRules(rulesFile);
+
+            assert.strictEqual(secretRules.rules.length, BUILT_IN_SECRET_RULES.length + 1);
+            assert.strictEqual(secretRules.rules.filter(rule => rule.id === 'jwt').length, 1);
+            assert.deepStrictEqual(scan(SAMPLE_LINES['jwt'], secretRules), []);
+            assert.deepStrictEqual(scan(`key = INTKEY-${randomLooking(12).toUpperCase()}`, secretRules).map(finding => [finding.ruleId, finding.description]), [
+                ['internal-key', 'internal-key']
+            ]);
+        });
+
+        it('skips lines matching the allow list', () => {
+            fs.writeFileSync(rulesFile, JSON.stringify({ allow: ['//\\s*secret-scan:ignore'] }), 'utf8');
+
+            const secretRules = loadSecretRules(rulesFile);
+
+            assert.deepStrictEqual(scan(`${SAMPLE_LINES['github-token']} // secret-scan:ignore`, secretRules), []);
+            assert.notDeepStrictEqual(scan(SAMPLE_LINES['github-token'], secretRules), []);
+        });
+
+        it('reports every error of an invalid rules file', () => {
+            fs.writeFileSync(rulesFile, JSON.stringify({
+                rules: [{ id: 'no-pattern' }, { id: 'broken', pattern: '(', secretGroup: -1, minEntropy: 'high' }],
+                allow: [1]
+            }), 'utf8');
+
+            assert.throws(() => loadSecretRules(rulesFile), (err: Error) => {
+                const lines = err.message.split('\n');
+                assert.strictEqual(lines[0], `Invalid secret scan rules file ${rulesFile}:`);
+                assert.deepStrictEqual(lines.slice(1, 5), [
+                    '- allow must be a list of regular expressions',
+                    '- rules[0] must have an id and a pattern',
+                    '- rules[1].secretGroup must be a capture group number',
+                    '- rules[1].minEntropy must be a number'
+                ]);
+                assert.match(lines[5], /^- rules\[1\]\.pattern is not a valid regular expression: /);
+                return true;
+            });
+        });
+
+        it('fails when the rules file is not JSON', () => {
+            fs.writeFileSync(rulesFile, '{ "rules": [', 'utf8');
+
+            assert.throws(() => loadSecretRules(rulesFile), /^Error: Secret scan rules file .* could not be read: /);
+        });
+    });
+
+    describe('maskSecret', () => {
+        const awsKeyRule = BUILT_IN_SECRET_RULES.find(rule => rule.id === 'aws-access-key-id')!;
+        const genericRule = BUILT_IN_SECRET_RULES.find(rule => rule.id === 'generic-secret')!;
+
+        it('keeps the prefix of long values of fixed-format rules', () => {
+            assert.strictEqual(maskSecret('AKIA' + randomLooking(16).toUpperCase(), awsKeyRule), 'AKIA********');
+        });
+
+        it('masks short values completely', () => {
+            assert.strictEqual(maskSecret('AKIA' + randomLooking(8), awsKeyRule), '********');
+        });
+
+        it('masks values of entropy-checked rules completely', () => {
+            assert.strictEqual(maskSecret(randomLooking(40), genericRule), '********');
+        });
+    });
+
+    describe('getAddedLines', () => {
+        it('matches lines by count and skips blank lines', () => {
+            assert.deepStrictEqual(getAddedLines('a\nb\nc', 'b\na\n\nd\na'), [4, 5]);
+            assert.deepStrictEqual(getAddedLines('', 'a\r\nb'), [1, 2]);
+        });
+    });
+
+    describe('getShannonEntropy', () => {
+        it('measures bits per character', () => {
+            assert.strictEqual(getShannonEntropy('aaaa'), 0);
+            assert.strictEqual(getShannonEntropy('abcd'), 2);
+        });
+    });
+});
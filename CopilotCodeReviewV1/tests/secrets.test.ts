@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { buildCopilotEnvironment, parseEnvironmentVariableNames, redactSecrets } from '../secrets';
+
+const SOURCE_ENVIRONMENT: NodeJS.ProcessEnv = {
+    Path: '/usr/bin',
+    HOME: '/home/agent',
+    HTTPS_PROXY: 'http://proxy:8080',
+    GH_TOKEN: 'github-token',
+    AZUREDEVOPS_TOKEN: 'azure-devops-token',
+    PRID: '7',
+    COPILOT_MODEL: 'model-a',
+    lc_all: 'C',
+    SYSTEM_ACCESSTOKEN: 'system-token',
+    AGENT_NAME: 'Hosted Agent',
+    BUILD_SOURCEBRANCH: 'refs/heads/feature',
+    NUGET_API_KEY: 'nuget-key',
+    MY_TOOL_HOME: '/opt/tool',
+    EMPTY: undefined
+};
+
+describe('secrets', () => {
+    describe('buildCopilotEnvironment', () => {
+        it('passes only allowlisted variables and prefixes, ignoring the case of names', () => {
+            assert.deepStrictEqual(buildCopilotEnvironment(SOURCE_ENVIRONMENT, { includeAzureDevOpsToken: true }), {
+                Path: '/usr/bin',
+                HOME: '/home/agent',
+                HTTPS_PROXY: 'http://proxy:8080',
+                GH_TOKEN: 'github-token',
+                AZUREDEVOPS_TOKEN: 'azure-devops-token',
+                PRID: '7',
+                COPILOT_MODEL: 'model-a',
+                lc_all: 'C'
+            });
+        });
+
+        it('drops the Azure DevOps token when the scripts only record, even when it is listed', () => {
+            const env = buildCopilotEnvironment(SOURCE_ENVIRONMENT, { includeAzureDevOpsToken: false, additionalVariables: ['azuredevops_token'] });
+
+            assert.strictEqual(env.AZUREDEVOPS_TOKEN, undefined);
+            assert.strictEqual(env.GH_TOKEN, 'github-token');
+        });
+
+        it('adds the additional variables', () => {
+            const env = buildCopilotEnvironment(SOURCE_ENVIRONMENT, { includeAzureDevOpsToken: false, additionalVariables: ['my_tool_home'] });
+
+            assert.strictEqual(env.MY_TOOL_HOME, '/opt/tool');
+            assert.strictEqual(env.SYSTEM_ACCESSTOKEN, undefined);
+            assert.strictEqual(env.NUGET_API_KEY, undefined);
+        });
+    });
+
+    describe('parseEnvironmentVariableNames', () => {
+        it('splits on commas and newlines', () => {
+            assert.deepStrictEqual(parseEnvironmentVariableNames(' JAVA_HOME, MAVEN_OPTS\r\n\nGOPATH ,'), ['JAVA_HOME', 'MAVEN_OPTS', 'GOPATH']);
+            assert.deepStrictEqual(parseEnvironmentVariableNames(undefined), []);
+        });
+    });
+
+    describe('redactSecrets', () => {
+        it('replaces every occurrence of each secret', () => {
+            assert.strictEqual(
+                redactSecrets('copilot --token abc123 --retry-token abc123 --pat xyz', ['abc123', undefined, 'xyz']),
+                'copilot --token *** --retry-token *** --pat ***'
+            );
+        });
+    });
+});
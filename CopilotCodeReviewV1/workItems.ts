@@ -0,0 +1,132 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import { AzureDevOpsConnection, WorkItemRef, getWorkItems } from './azureDevOpsClient';
+
+/**
+ * Linked work item context for PR_Details.txt: the title, type, state, description, acceptance criteria
+ * and repro steps of each work item linked to the pull request, converted from HTML to plain text and
+ * trimmed to workItemMaxChars characters per work item.
+ */
+
+export const DEFAULT_WORK_ITEM_MAX_CHARS = 4000;
+
+// The work items API accepts at most 200 IDs per request
+const MAX_WORK_ITEMS = 200;
+
+const TEXT_FIELDS = [
+    { name: 'System.Description', label: 'Description' },
+    { name: 'Microsoft.VSTS.Common.AcceptanceCriteria', label: 'Acceptance Criteria' },
+    { name: 'Microsoft.VSTS.TCM.ReproSteps', label: 'Repro Steps' }
+] as const;
+
+export type WorkItemSection = {
+    label: string;
+    text: string;
+};
+
+export type WorkItemDetails = {
+    id: number;
+    type?: string;
+    title?: string;
+    state?: string;
+    sections: WorkItemSection[];
+    truncated: boolean;
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' '
+};
+
+/**
+ * Plain text of a rich-text work item field. Block elements become line breaks, list items become
+ * '- ' bullets and all other markup is dropped.
+ */
+export function htmlToText(html: string): string {
+    return html
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<li[^>]*>/gi, '\n- ')
+        .replace(/<\/(p|div|ul|ol|h[1-6]|tr|table|pre|blockquote)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+            if (code[0] === '#') {
+                const value = code[1].toLowerCase() === 'x' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+                return isNaN(value) ? entity : String.fromCodePoint(value);
+            }
+            return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+        })
+        .split('\n')
+        .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+function getStringField(fields: Record<string, unknown> | undefined, name: string): string | undefined {
+    const value = fields?.[name];
+    return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+/**
+ * Fetches the details of the linked work items. The text fields share the character budget of each work
+ * item in field order, so a long description can leave no room for the acceptance criteria.
+ * A budget of 0 disables the lookup. Failures are logged as warnings and return an empty list.
+ */
+export async function fetchWorkItemDetails(
+    connection: AzureDevOpsConnection,
+    workItemRefs: WorkItemRef[],
+    maxChars: number
+): Promise<WorkItemDetails[]> {
+    const ids = workItemRefs.map(ref => parseInt(ref.id, 10)).filter(id => id > 0).slice(0, MAX_WORK_ITEMS);
+    if (maxChars <= 0 || ids.length === 0) {
+        return [];
+    }
+
+    try {
+        const fields = ['System.Title', 'System.WorkItemType', 'System.State', ...TEXT_FIELDS.map(field => field.name)];
+        const workItems = await getWorkItems(connection, ids, fields);
+
+        return workItems.map(workItem => {
+            const sections: WorkItemSection[] = [];
+            let remaining = maxChars;
+            let truncated = false;
+
+            for (const field of TEXT_FIELDS) {
+                const html = getStringField(workItem.fields, field.name);
+                const text = html ? htmlToText(html) : '';
+                if (!text) {
+                    continue;
+                }
+                if (remaining <= 0) {
+                    truncated = true;
+                    break;
+                }
+                if (text.length > remaining) {
+                    sections.push({ label: field.label, text: `${text.substring(0, remaining).trimEnd()}...` });
+                    truncated = true;
+                    remaining = 0;
+                    continue;
+                }
+                sections.push({ label: field.label, text });
+                remaining -= text.length;
+            }
+
+            return {
+                id: workItem.id,
+                type: getStringField(workItem.fields, 'System.WorkItemType'),
+                title: getStringField(workItem.fields, 'System.Title'),
+                state: getStringField(workItem.fields, 'System.State'),
+                sections,
+                truncated
+            };
+        });
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        tl.warning(`Could not fetch the linked work item details: ${errorMessage}`);
+        return [];
+    }
+}
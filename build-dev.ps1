@@ -56,11 +56,13 @@ else {
 # Step 2: Copy compiled files to dev task folder
 Write-Host "`n[Step 2/4] Copying files to dev task folder..." -ForegroundColor Yellow
 
-# Copy index.js
+# Copy compiled modules (index.js and its sibling modules)
 $indexJs = Join-Path $prodTaskDir "index.js"
 if (Test-Path $indexJs) {
-    Copy-Item $indexJs -Destination $devTaskDir -Force
-    Write-Host "  Copied: index.js" -ForegroundColor Gray
+    Get-ChildItem -Path $prodTaskDir -Filter "*.js" -File | ForEach-Object {
+        Copy-Item $_.FullName -Destination $devTaskDir -Force
+        Write-Host "  Copied: $($_.Name)" -ForegroundColor Gray
+    }
 }
 else {
     throw "index.js not found. Run build first."